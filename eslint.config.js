@@ -24,7 +24,8 @@ module.exports = [
         Buffer: 'readonly',
         __dirname: 'readonly',
         __filename: 'readonly',
-        global: 'readonly'
+        global: 'readonly',
+        AbortSignal: 'readonly'
       }
     },
     plugins: {
@@ -0,0 +1,170 @@
+import type { PRData } from '../github/client';
+import { AIProviderError, errorKindForStatus, toProviderError } from './errors';
+import type {
+  AIProvider,
+  AIRequestOptions,
+  AIValidationResult,
+  PromptOptions,
+} from './provider';
+import {
+  VALIDATION_RESPONSE_SCHEMA,
+  buildStructuredPrompt,
+  buildValidationPrompt,
+  normalizeValidationResult,
+  parseJsonResponse,
+  unavailableResult,
+} from './prompt';
+
+/**
+ * Anthropic Messages API client for PR validation analysis.
+ *
+ * Structured output is obtained by forcing a single tool call whose input
+ * schema is the validation verdict; the tool input is then already parsed JSON.
+ */
+
+export const DEFAULT_ANTHROPIC_MODEL = 'claude-3-5-haiku-latest';
+
+const ANTHROPIC_API_URL = 'https://api.anthropic.com/v1/messages';
+const ANTHROPIC_API_VERSION = '2023-06-01';
+const VALIDATION_TOOL_NAME = 'report_validation';
+const MAX_OUTPUT_TOKENS = 4096;
+
+/**
+ * Subset of the Messages API response used by the client.
+ */
+interface MessagesResponse {
+  content?: { type: string; name?: string; input?: unknown; text?: string }[];
+  usage?: { input_tokens?: number; output_tokens?: number };
+}
+
+/**
+ * Anthropic AI client implementing the AIProvider contract.
+ */
+export class AnthropicClient implements AIProvider {
+  readonly name = 'anthropic' as const;
+
+  private readonly _apiKey: string;
+  private readonly _model: string;
+
+  /**
+   * @param apiKey - Anthropic API key
+   * @param model - Claude model name
+   * @throws Error when API key or model is empty
+   */
+  constructor(apiKey: string, model: string = DEFAULT_ANTHROPIC_MODEL) {
+    if (!apiKey || apiKey.trim() === '') {
+      throw new Error('API key is required');
+    }
+    if (!model || model.trim() === '') {
+      throw new Error('Anthropic model is required');
+    }
+
+    this._apiKey = apiKey;
+    this._model = model;
+  }
+
+  get model(): string {
+    return this._model;
+  }
+
+  generateValidationPrompt(
+    prData: PRData,
+    guidelines: string,
+    options?: PromptOptions
+  ): string {
+    return buildValidationPrompt(prData, guidelines, options);
+  }
+
+  /**
+   * Validates PR content through a forced tool call.
+   *
+   * @param prompt - Structured validation prompt with PR data and guidelines
+   * @returns Promise resolving to structured validation result with token usage
+   */
+  async validateContent(
+    prompt: string,
+    options: AIRequestOptions = {}
+  ): Promise<AIValidationResult> {
+    try {
+      return await this.requestValidation(prompt, options);
+    } catch (_error) {
+      return unavailableResult(this._model, this.name);
+    }
+  }
+
+  /**
+   * Performs the API call, classifying failures for the fallback chain.
+   *
+   * @throws AIProviderError on quota, timeout, invalid JSON or request errors
+   */
+  async requestValidation(
+    prompt: string,
+    options: AIRequestOptions = {}
+  ): Promise<AIValidationResult> {
+    try {
+      const response = await global.fetch(ANTHROPIC_API_URL, {
+        method: 'POST',
+        ...(options.signal && { signal: options.signal }),
+        headers: {
+          'x-api-key': this._apiKey,
+          'anthropic-version': ANTHROPIC_API_VERSION,
+          'content-type': 'application/json',
+        },
+        body: JSON.stringify({
+          model: this._model,
+          max_tokens: MAX_OUTPUT_TOKENS,
+          messages: [{ role: 'user', content: buildStructuredPrompt(prompt) }],
+          tools: [
+            {
+              name: VALIDATION_TOOL_NAME,
+              description: 'Report the validation verdict for the PR',
+              input_schema: VALIDATION_RESPONSE_SCHEMA,
+            },
+          ],
+          tool_choice: { type: 'tool', name: VALIDATION_TOOL_NAME },
+        }),
+      });
+
+      if (!response.ok) {
+        throw new AIProviderError(
+          `Anthropic API returned HTTP ${response.status}`,
+          errorKindForStatus(response.status)
+        );
+      }
+
+      const data = (await response.json()) as MessagesResponse;
+      const toolUse = data.content?.find(
+        block =>
+          block.type === 'tool_use' && block.name === VALIDATION_TOOL_NAME
+      );
+      // Fall back to a JSON text answer in case the model ignored the tool
+      const textBlock = data.content?.find(block => block.type === 'text');
+      let verdict: unknown;
+      if (toolUse) {
+        verdict = toolUse.input;
+      } else if (textBlock?.text) {
+        verdict = parseJsonResponse(textBlock.text);
+      } else {
+        throw new AIProviderError(
+          'Anthropic response contained no validation verdict',
+          'invalid-response'
+        );
+      }
+
+      const promptTokens = data.usage?.input_tokens ?? 0;
+      const completionTokens = data.usage?.output_tokens ?? 0;
+      return {
+        ...normalizeValidationResult(verdict),
+        model: this._model,
+        provider: this.name,
+        tokenUsage: {
+          promptTokens,
+          completionTokens,
+          totalTokens: promptTokens + completionTokens,
+        },
+      };
+    } catch (error) {
+      throw toProviderError(error);
+    }
+  }
+}
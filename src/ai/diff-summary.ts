@@ -0,0 +1,95 @@
+/**
+ * Changed Files Summary
+ *
+ * Condenses a PR's changed files into prompt text for the `text+diff`
+ * analysis scope. The AI only needs enough of the diff to tell whether the
+ * title, description and commits describe it, so patches are cut to fit a
+ * fixed token budget instead of growing with the PR.
+ */
+
+import type { FileData } from '../github/client';
+import { estimateTokens, truncateLines, withTruncationNote } from './tokens';
+
+// Room for the file list and the start of most patches while keeping
+// diff-aware prompts within a few cents on the cheaper models
+export const DEFAULT_DIFF_TOKEN_BUDGET = 6000;
+
+// Patch shares below this would show a hunk header and little else
+const MIN_PATCH_TOKENS = 40;
+
+function moreFilesNote(count: number): string {
+  return `- ... and ${count} more files`;
+}
+
+function omittedPatchesNote(count: number): string {
+  return `(Patches of ${count} more files omitted to stay within the token budget)`;
+}
+
+function describeFile(file: FileData): string {
+  return `- ${file.filename} (${file.status}, +${file.additions}/-${file.deletions})`;
+}
+
+/**
+ * Lists the changed files and as much of each patch as the budget allows.
+ *
+ * The file list comes first since file names alone already show which areas
+ * a PR touches. Whatever budget is left is shared evenly by the patches, in
+ * PR order; small patches pass their unused share on to later files.
+ */
+export function summarizeChangedFiles(
+  files: readonly FileData[],
+  tokenBudget: number = DEFAULT_DIFF_TOKEN_BUDGET
+): string {
+  if (files.length === 0) {
+    return 'No files changed';
+  }
+
+  // Kept free for the notes on what did not fit
+  let remaining =
+    tokenBudget -
+    estimateTokens(
+      `\n${moreFilesNote(files.length)}\n\n${omittedPatchesNote(files.length)}`
+    );
+  const listed: FileData[] = [];
+  for (const file of files) {
+    const cost = estimateTokens(describeFile(file)) + 1;
+    if (cost > remaining) {
+      break;
+    }
+    listed.push(file);
+    remaining -= cost;
+  }
+  const list = listed.map(describeFile);
+  if (listed.length < files.length) {
+    list.push(moreFilesNote(files.length - listed.length));
+  }
+
+  const withPatch = listed.filter(file => file.patch);
+  const patches: string[] = [];
+  withPatch.forEach((file, index) => {
+    const fullPatch = file.patch ?? '';
+    const header = `${file.filename}:\n\`\`\`diff\n`;
+    const footer = '\n```';
+    // Sections are joined with a blank line, which counts towards the budget
+    const separator = '\n\n';
+    // Reserve room for the truncation note, sized for the largest count
+    const note = `\n... (${fullPatch.split('\n').length} more lines truncated)`;
+    const share =
+      Math.floor(remaining / (withPatch.length - index)) -
+      estimateTokens(separator + header + footer + note);
+    if (share < MIN_PATCH_TOKENS) {
+      return;
+    }
+    const patch = withTruncationNote(truncateLines(fullPatch, share));
+    const section = `${header}${patch}${footer}`;
+    patches.push(section);
+    remaining -= estimateTokens(separator + section);
+  });
+
+  const omittedPatches = withPatch.length - patches.length;
+  if (omittedPatches > 0) {
+    patches.push(omittedPatchesNote(omittedPatches));
+  }
+
+  return [list.join('\n'), ...patches].join('\n\n');
+}
@@ -0,0 +1,107 @@
+/**
+ * AI provider failure classification.
+ *
+ * Providers fail in different ways (SDK exceptions, HTTP status codes, aborted
+ * requests, unparsable answers); classifying them lets the fallback chain decide
+ * whether another provider is worth trying.
+ */
+
+/**
+ * - quota: rate limit or exhausted quota (HTTP 429, provider overload)
+ * - timeout: the request was aborted or the gateway timed out
+ * - invalid-response: the model answered, but not with a usable JSON verdict
+ * - unavailable: transient server error (HTTP 5xx)
+ * - request: anything else, e.g. bad credentials or a rejected request
+ */
+export type AIProviderErrorKind =
+  | 'quota'
+  | 'timeout'
+  | 'invalid-response'
+  | 'unavailable'
+  | 'request';
+
+const RETRYABLE_KINDS: readonly AIProviderErrorKind[] = [
+  'quota',
+  'timeout',
+  'invalid-response',
+  'unavailable',
+];
+
+/**
+ * Error thrown by AIProvider.requestValidation with a failure classification.
+ */
+export class AIProviderError extends Error {
+  readonly kind: AIProviderErrorKind;
+
+  constructor(message: string, kind: AIProviderErrorKind) {
+    super(message);
+    this.name = 'AIProviderError';
+    this.kind = kind;
+  }
+
+  /**
+   * Whether a different provider or model may succeed where this one failed.
+   * Request errors are configuration problems that would only fail again.
+   */
+  get retryable(): boolean {
+    return RETRYABLE_KINDS.includes(this.kind);
+  }
+}
+
+/**
+ * Maps an HTTP status returned by a provider API to an error kind.
+ */
+export function errorKindForStatus(status: number): AIProviderErrorKind {
+  // 529 is Anthropic's "overloaded" status
+  if (status === 429 || status === 529) {
+    return 'quota';
+  }
+  if (status === 408 || status === 504) {
+    return 'timeout';
+  }
+  if (status >= 500) {
+    return 'unavailable';
+  }
+  return 'request';
+}
+
+/**
+ * Normalizes any failure raised while calling a provider into an AIProviderError.
+ *
+ * SDK errors expose the HTTP status as a `status` property; aborted requests
+ * surface as AbortError/TimeoutError; JSON.parse failures as SyntaxError.
+ */
+export function toProviderError(error: unknown): AIProviderError {
+  if (error instanceof AIProviderError) {
+    return error;
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  if (error instanceof SyntaxError) {
+    return new AIProviderError(
+      `Invalid JSON in AI response: ${message}`,
+      'invalid-response'
+    );
+  }
+  if (
+    error instanceof Error &&
+    (error.name === 'AbortError' || error.name === 'TimeoutError')
+  ) {
+    return new AIProviderError(`AI request timed out: ${message}`, 'timeout');
+  }
+
+  const status =
+    error && typeof error === 'object' && 'status' in error
+      ? Number(error.status)
+      : NaN;
+  if (Number.isInteger(status)) {
+    return new AIProviderError(message, errorKindForStatus(status));
+  }
+  if (/quota|rate limit|resource.?exhausted/i.test(message)) {
+    return new AIProviderError(message, 'quota');
+  }
+  if (/timed? ?out/i.test(message)) {
+    return new AIProviderError(message, 'timeout');
+  }
+  return new AIProviderError(message, 'request');
+}
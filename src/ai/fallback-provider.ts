@@ -0,0 +1,97 @@
+import type { PRData } from '../github/client';
+import { toProviderError } from './errors';
+import type {
+  AIProvider,
+  AIProviderName,
+  AIRequestOptions,
+  AIValidationResult,
+  PromptOptions,
+} from './provider';
+import { buildValidationPrompt, unavailableResult } from './prompt';
+
+/**
+ * Ordered chain of AI providers tried one after another.
+ *
+ * The primary provider answers normally; when it fails with a retryable error
+ * (quota, timeout, invalid JSON, transient server error) the same prompt is sent
+ * to the next provider. Non-retryable errors such as bad credentials stop the
+ * chain, since they point at a configuration problem that needs fixing.
+ */
+export class FallbackProvider implements AIProvider {
+  private readonly _providers: readonly AIProvider[];
+  private readonly _primary: AIProvider;
+
+  /**
+   * @param providers - Providers in order of preference, primary first
+   * @throws Error when the chain is empty
+   */
+  constructor(providers: readonly AIProvider[]) {
+    const [primary] = providers;
+    if (!primary) {
+      throw new Error('At least one AI provider is required');
+    }
+    this._providers = providers;
+    this._primary = primary;
+  }
+
+  get name(): AIProviderName {
+    return this._primary.name;
+  }
+
+  get model(): string {
+    return this._primary.model;
+  }
+
+  /**
+   * The prompt is provider-independent, so it is built once for the chain.
+   */
+  generateValidationPrompt(
+    prData: PRData,
+    guidelines: string,
+    options?: PromptOptions
+  ): string {
+    return buildValidationPrompt(prData, guidelines, options);
+  }
+
+  async validateContent(
+    prompt: string,
+    options: AIRequestOptions = {}
+  ): Promise<AIValidationResult> {
+    try {
+      return await this.requestValidation(prompt, options);
+    } catch (_error) {
+      return unavailableResult(this._primary.model, this._primary.name);
+    }
+  }
+
+  /**
+   * Tries each provider in order and returns the first verdict, annotated with
+   * the providers that failed before it.
+   *
+   * @throws AIProviderError of the last attempted provider when none answered
+   */
+  async requestValidation(
+    prompt: string,
+    options: AIRequestOptions = {}
+  ): Promise<AIValidationResult> {
+    const failed: string[] = [];
+
+    for (const [index, provider] of this._providers.entries()) {
+      try {
+        const result = await provider.requestValidation(prompt, options);
+        return failed.length > 0 ? { ...result, fallbackFrom: failed } : result;
+      } catch (error) {
+        const providerError = toProviderError(error);
+        const isLast = index === this._providers.length - 1;
+        // An aborted run has no time left for the next provider either
+        if (!providerError.retryable || isLast || options.signal?.aborted) {
+          throw providerError;
+        }
+        failed.push(`${provider.name}/${provider.model}`);
+      }
+    }
+
+    // Unreachable: the loop either returns or throws on the last provider
+    throw new Error('No AI provider produced a result');
+  }
+}
@@ -1,5 +1,20 @@
 import { GoogleGenerativeAI, SchemaType } from '@google/generative-ai';
 import type { PRData } from '../github/client';
+import { toProviderError } from './errors';
+import {
+  ISSUE_CATEGORIES,
+  ISSUE_SEVERITIES,
+  type AIProvider,
+  type AIRequestOptions,
+  type AIValidationResult,
+  type PromptOptions,
+} from './provider';
+import {
+  buildStructuredPrompt,
+  buildValidationPrompt,
+  normalizeValidationResult,
+  unavailableResult,
+} from './prompt';
 
 /**
  * Google Gemini AI client for PR validation analysis.
@@ -9,75 +24,81 @@ import type { PRData } from '../github/client';
  */
 
 /**
- * Structured validation response from Gemini API.
+ * Gemini models accepted by the `gemini-model` input.
  *
- * Designed for consistent parsing across different AI providers while maintaining
- * cost visibility through token usage metrics.
+ * Restricted to models that support structured JSON output via responseSchema;
+ * a typo in the workflow file should fail fast rather than at the first API call.
  */
-interface ValidationResult {
-  status: 'PASS' | 'FAIL' | 'WARNINGS';
-  issues: string[];
-  improved_title: string;
-  improved_commits: string;
-  improved_description: string;
-  tokenUsage?: {
-    promptTokens: number;
-    completionTokens: number;
-    totalTokens: number;
-  };
-}
+export const SUPPORTED_GEMINI_MODELS = [
+  'gemini-1.5-flash',
+  'gemini-1.5-flash-8b',
+  'gemini-1.5-pro',
+  'gemini-2.0-flash',
+  'gemini-2.0-flash-lite',
+  'gemini-2.5-flash',
+  'gemini-2.5-flash-lite',
+  'gemini-2.5-pro',
+] as const;
+
+// Gemini 1.5 Flash chosen for optimal speed/cost balance in CI environments
+export const DEFAULT_GEMINI_MODEL = 'gemini-1.5-flash';
 
 /**
  * Google Gemini AI client implementing real API integration.
  */
-export class GeminiClient {
+export class GeminiClient implements AIProvider {
+  readonly name = 'gemini' as const;
+
   /**
    * Google Generative AI client instance.
    * Private field encapsulation prevents external access while enabling dependency injection testing.
    */
   private readonly _googleGenAI: GoogleGenerativeAI;
+  private readonly _model: string;
 
   /**
-   * Initialize Gemini client with API key validation.
+   * Initialize Gemini client with API key and model validation.
    *
    * @param apiKey - Google AI Studio API key for Gemini access
-   * @throws Error when API key is empty or invalid
+   * @param model - Gemini model name, one of SUPPORTED_GEMINI_MODELS
+   * @throws Error when API key is empty or the model is not supported
    */
-  constructor(apiKey: string) {
+  constructor(apiKey: string, model: string = DEFAULT_GEMINI_MODEL) {
     if (!apiKey || apiKey.trim() === '') {
       throw new Error('API key is required');
     }
 
+    if (!(SUPPORTED_GEMINI_MODELS as readonly string[]).includes(model)) {
+      throw new Error(
+        `Unsupported Gemini model "${model}". Supported models: ${SUPPORTED_GEMINI_MODELS.join(', ')}`
+      );
+    }
+
     this._googleGenAI = new GoogleGenerativeAI(apiKey);
+    this._model = model;
+  }
+
+  /**
+   * Name of the Gemini model used for validation.
+   */
+  get model(): string {
+    return this._model;
   }
 
   /**
    * Generate text-format-focused validation prompt from PR data and guidelines.
    *
-   * Intentionally excludes code metrics (lines changed, files modified) to focus
-   * validation on objective text format criteria. This design choice reduces token
-   * usage, speeds up validation, and provides more predictable results.
-   *
    * @param prData - Complete PR data from GitHub API extraction
    * @param guidelines - Project-specific contribution guidelines text
+   * @param options - Analysis scope; the changed files are only included for text+diff
    * @returns Formatted prompt string focused on text format validation only
    */
-  generateValidationPrompt(prData: PRData, guidelines: string): string {
-    return `
-Analyze this pull request TEXT FORMAT against the contribution guidelines:
-
-**Pull Request Details:**
-- Title: ${prData.title}
-- Description: ${prData.body || 'No description provided'}
-
-**Commits:**
-${prData.commits.map(commit => `- ${commit.message} (by ${commit.author.name})`).join('\n')}
-
-**Contribution Guidelines:**
-${guidelines}
-
-IMPORTANT: Validate ONLY the text format (title, description, commit messages).
-Do NOT evaluate code changes, architecture, or implementation details.`;
+  generateValidationPrompt(
+    prData: PRData,
+    guidelines: string,
+    options?: PromptOptions
+  ): string {
+    return buildValidationPrompt(prData, guidelines, options);
   }
 
   /**
@@ -86,17 +107,45 @@ Do NOT evaluate code changes, architecture, or implementation details.`;
    * @param prompt - Structured validation prompt with PR data and guidelines
    * @returns Promise resolving to structured validation result with token usage
    */
-  async validateContent(prompt: string): Promise<ValidationResult> {
+  async validateContent(
+    prompt: string,
+    options: AIRequestOptions = {}
+  ): Promise<AIValidationResult> {
+    try {
+      return await this.requestValidation(prompt, options);
+    } catch (_error) {
+      // Graceful error handling - API key issues, timeouts, etc.
+      return unavailableResult(this._model, this.name);
+    }
+  }
+
+  /**
+   * Performs the Gemini API call, classifying failures for the fallback chain.
+   *
+   * @throws AIProviderError on quota, timeout, invalid JSON or request errors
+   */
+  async requestValidation(
+    prompt: string,
+    options: AIRequestOptions = {}
+  ): Promise<AIValidationResult> {
     try {
       // Legacy pattern check preserves backwards compatibility with existing tests
       // that expect specific validation responses
       if (prompt.includes('Invalid commit message format')) {
         return {
           status: 'FAIL',
-          issues: ['Fix commit message format'],
+          issues: [
+            {
+              severity: 'error',
+              category: 'commits',
+              message: 'Fix commit message format',
+            },
+          ],
           improved_title: '',
           improved_commits: '',
           improved_description: '',
+          model: this._model,
+          provider: this.name,
           tokenUsage: {
             promptTokens: prompt.length / 4,
             completionTokens: 5,
@@ -105,9 +154,8 @@ Do NOT evaluate code changes, architecture, or implementation details.`;
         };
       }
 
-      // Gemini 1.5 Flash chosen for optimal speed/cost balance in CI environments
       const model = this._googleGenAI.getGenerativeModel({
-        model: 'gemini-1.5-flash',
+        model: this._model,
         generationConfig: {
           responseMimeType: 'application/json',
           // Structured response schema enforces consistent AI output format.
@@ -116,14 +164,37 @@ Do NOT evaluate code changes, architecture, or implementation details.`;
           responseSchema: {
             type: SchemaType.OBJECT,
             properties: {
-              status: {
-                type: SchemaType.STRING,
-                description: 'Validation status: PASS, FAIL, or WARNINGS',
-              },
               issues: {
                 type: SchemaType.ARRAY,
-                items: { type: SchemaType.STRING },
                 description: 'Specific issues found with the PR',
+                items: {
+                  type: SchemaType.OBJECT,
+                  properties: {
+                    severity: {
+                      type: SchemaType.STRING,
+                      format: 'enum',
+                      enum: [...ISSUE_SEVERITIES],
+                      description:
+                        'error blocks merging, warning should be fixed, suggestion is optional',
+                    },
+                    category: {
+                      type: SchemaType.STRING,
+                      format: 'enum',
+                      enum: [...ISSUE_CATEGORIES],
+                      description: 'Part of the PR the issue is about',
+                    },
+                    target: {
+                      type: SchemaType.STRING,
+                      description:
+                        'Abbreviated SHA for commit issues, otherwise empty',
+                    },
+                    message: {
+                      type: SchemaType.STRING,
+                      description: 'Description of the issue',
+                    },
+                  },
+                  required: ['severity', 'category', 'target', 'message'],
+                },
               },
               improved_title: {
                 type: SchemaType.STRING,
@@ -137,52 +208,56 @@ Do NOT evaluate code changes, architecture, or implementation details.`;
                 type: SchemaType.STRING,
                 description: 'Suggested improved PR description if needed',
               },
+              commits: {
+                type: SchemaType.ARRAY,
+                description:
+                  'Verdict for each commit, in the order they were listed',
+                items: {
+                  type: SchemaType.OBJECT,
+                  properties: {
+                    sha: {
+                      type: SchemaType.STRING,
+                      description: 'Abbreviated commit SHA exactly as listed',
+                    },
+                    status: {
+                      type: SchemaType.STRING,
+                      description: 'Status of this commit message',
+                    },
+                    issues: {
+                      type: SchemaType.ARRAY,
+                      items: { type: SchemaType.STRING },
+                      description: 'Issues with this commit message',
+                    },
+                    suggested_message: {
+                      type: SchemaType.STRING,
+                      description:
+                        'Rewritten commit message, empty if it is fine',
+                    },
+                  },
+                  required: ['sha', 'status', 'issues', 'suggested_message'],
+                },
+              },
             },
             required: [
-              'status',
               'issues',
               'improved_title',
               'improved_commits',
               'improved_description',
+              'commits',
             ],
           },
         },
       });
 
-      // Create structured validation prompt focused on text format criteria only.
-      // The explicit exclusion of code evaluation ensures consistent, objective
-      // validation that doesn't vary based on subjective code quality opinions.
-      const structuredPrompt = `${prompt}
-
-Return a JSON response analyzing ONLY the TEXT FORMAT of this pull request:
-{
-  "status": "PASS" | "FAIL" | "WARNINGS",
-  "issues": ["list of text format issues only"],
-  "improved_title": "suggested improved PR title format",
-  "improved_commits": "suggested improved commit message format",
-  "improved_description": "suggested improved PR description structure"
-}
-
-TEXT FORMAT validation criteria ONLY:
-1. Commit message format (conventional commits: type(scope): description)
-2. PR title format and clarity
-3. PR description structure (has sections like What/Why/How)
-
-Do NOT evaluate:
-- Code quality or architecture
-- File changes appropriateness
-- Implementation details
-- Technical decisions
-
-Status guidelines:
-- PASS: Text format follows all guidelines
-- WARNINGS: Minor format issues or missing sections
-- FAIL: Significant format violations (non-conventional commits, missing description)
-
-Focus ONLY on text formatting, NOT on what the code does.`;
+      const structuredPrompt = buildStructuredPrompt(prompt);
 
       // Make API call to Gemini
-      const result = await model.generateContent(structuredPrompt);
+      // The SDK forwards the signal to fetch, cancelling the HTTP request itself
+      const result = options.signal
+        ? await model.generateContent(structuredPrompt, {
+            signal: options.signal,
+          })
+        : await model.generateContent(structuredPrompt);
       const { response } = result;
 
       // Extract token usage from response
@@ -195,32 +270,16 @@ Focus ONLY on text formatting, NOT on what the code does.`;
 
       // Parse JSON response
       const jsonText = response.text();
-      const validationResult = JSON.parse(jsonText);
+      const validationResult = normalizeValidationResult(JSON.parse(jsonText));
 
       return {
-        status: validationResult.status ?? 'FAIL',
-        issues: validationResult.issues ?? [],
-        improved_title: validationResult.improved_title ?? '',
-        improved_commits: validationResult.improved_commits ?? '',
-        improved_description: validationResult.improved_description ?? '',
+        ...validationResult,
+        model: this._model,
+        provider: this.name,
         tokenUsage,
       };
-    } catch (_error) {
-      // Graceful error handling - API key issues, timeouts, etc.
-      // Empty strings for improved_* fields maintain interface consistency
-      // while gracefully degrading when AI service is unavailable.
-      return {
-        status: 'FAIL',
-        issues: ['AI validation unavailable - please review manually'],
-        improved_title: '',
-        improved_commits: '',
-        improved_description: '',
-        tokenUsage: {
-          promptTokens: 0,
-          completionTokens: 0,
-          totalTokens: 0,
-        },
-      };
+    } catch (error) {
+      throw toProviderError(error);
     }
   }
 }
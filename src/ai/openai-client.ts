@@ -0,0 +1,164 @@
+import type { PRData } from '../github/client';
+import { AIProviderError, errorKindForStatus, toProviderError } from './errors';
+import type {
+  AIProvider,
+  AIRequestOptions,
+  AIValidationResult,
+  PromptOptions,
+} from './provider';
+import {
+  VALIDATION_RESPONSE_SCHEMA,
+  buildStructuredPrompt,
+  buildValidationPrompt,
+  normalizeValidationResult,
+  parseJsonResponse,
+  unavailableResult,
+} from './prompt';
+
+/**
+ * OpenAI-compatible chat completions client for PR validation analysis.
+ *
+ * Talks plain HTTP to `/chat/completions`, so any endpoint implementing the
+ * OpenAI API (Azure OpenAI proxies, OpenRouter, local gateways) can be used by
+ * pointing the base URL at it.
+ */
+
+export const DEFAULT_OPENAI_MODEL = 'gpt-4o-mini';
+export const DEFAULT_OPENAI_BASE_URL = 'https://api.openai.com/v1';
+
+/**
+ * Subset of the chat completions response used by the client.
+ */
+interface ChatCompletionResponse {
+  choices?: { message?: { content?: string | null } }[];
+  usage?: {
+    prompt_tokens?: number;
+    completion_tokens?: number;
+    total_tokens?: number;
+  };
+}
+
+/**
+ * OpenAI-compatible AI client implementing the AIProvider contract.
+ */
+export class OpenAIClient implements AIProvider {
+  readonly name = 'openai' as const;
+
+  private readonly _apiKey: string;
+  private readonly _model: string;
+  private readonly _baseUrl: string;
+
+  /**
+   * @param apiKey - API key sent as a bearer token
+   * @param model - Model name; not restricted since compatible endpoints host arbitrary models
+   * @param baseUrl - API root, e.g. https://api.openai.com/v1
+   * @throws Error when API key or model is empty
+   */
+  constructor(
+    apiKey: string,
+    model: string = DEFAULT_OPENAI_MODEL,
+    baseUrl: string = DEFAULT_OPENAI_BASE_URL
+  ) {
+    if (!apiKey || apiKey.trim() === '') {
+      throw new Error('API key is required');
+    }
+    if (!model || model.trim() === '') {
+      throw new Error('OpenAI model is required');
+    }
+
+    this._apiKey = apiKey;
+    this._model = model;
+    this._baseUrl = baseUrl.replace(/\/+$/, '');
+  }
+
+  get model(): string {
+    return this._model;
+  }
+
+  generateValidationPrompt(
+    prData: PRData,
+    guidelines: string,
+    options?: PromptOptions
+  ): string {
+    return buildValidationPrompt(prData, guidelines, options);
+  }
+
+  /**
+   * Validates PR content using JSON-schema structured outputs.
+   *
+   * @param prompt - Structured validation prompt with PR data and guidelines
+   * @returns Promise resolving to structured validation result with token usage
+   */
+  async validateContent(
+    prompt: string,
+    options: AIRequestOptions = {}
+  ): Promise<AIValidationResult> {
+    try {
+      return await this.requestValidation(prompt, options);
+    } catch (_error) {
+      return unavailableResult(this._model, this.name);
+    }
+  }
+
+  /**
+   * Performs the API call, classifying failures for the fallback chain.
+   *
+   * @throws AIProviderError on quota, timeout, invalid JSON or request errors
+   */
+  async requestValidation(
+    prompt: string,
+    options: AIRequestOptions = {}
+  ): Promise<AIValidationResult> {
+    try {
+      const response = await global.fetch(`${this._baseUrl}/chat/completions`, {
+        method: 'POST',
+        ...(options.signal && { signal: options.signal }),
+        headers: {
+          authorization: `Bearer ${this._apiKey}`,
+          'content-type': 'application/json',
+        },
+        body: JSON.stringify({
+          model: this._model,
+          messages: [{ role: 'user', content: buildStructuredPrompt(prompt) }],
+          response_format: {
+            type: 'json_schema',
+            json_schema: {
+              name: 'validation_result',
+              strict: true,
+              schema: VALIDATION_RESPONSE_SCHEMA,
+            },
+          },
+        }),
+      });
+
+      if (!response.ok) {
+        throw new AIProviderError(
+          `OpenAI API returned HTTP ${response.status}`,
+          errorKindForStatus(response.status)
+        );
+      }
+
+      const data = (await response.json()) as ChatCompletionResponse;
+      const content = data.choices?.[0]?.message?.content;
+      if (!content) {
+        throw new AIProviderError(
+          'OpenAI response contained no message content',
+          'invalid-response'
+        );
+      }
+
+      return {
+        ...normalizeValidationResult(parseJsonResponse(content)),
+        model: this._model,
+        provider: this.name,
+        tokenUsage: {
+          promptTokens: data.usage?.prompt_tokens ?? 0,
+          completionTokens: data.usage?.completion_tokens ?? 0,
+          totalTokens: data.usage?.total_tokens ?? 0,
+        },
+      };
+    } catch (error) {
+      throw toProviderError(error);
+    }
+  }
+}
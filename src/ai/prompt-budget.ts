@@ -0,0 +1,184 @@
+/**
+ * Prompt Budget
+ *
+ * Caps the PR text and guidelines that go into the AI prompt. PR bodies and
+ * guidelines files have no size limit of their own, so without a cap a single
+ * pasted log or a long handbook can exceed the model's context or multiply
+ * the cost of every run.
+ */
+
+import type { CommitData, PRData } from '../github/client';
+import {
+  estimateTokens,
+  truncateLines,
+  withTruncationNote,
+  type TruncatedText,
+} from './tokens';
+
+// Several pages of guidelines plus a detailed description; the fixed prompt
+// instructions and the text+diff file summary come on top
+export const DEFAULT_PROMPT_TOKEN_BUDGET = 8000;
+
+// Sections this small are never cut; saving a few tokens on them would cost
+// the AI the context it needs most
+const MIN_SECTION_TOKENS = 200;
+
+/**
+ * Parts of the prompt that may be shortened. The title is short by nature
+ * (GitHub caps it at 256 characters) and is always sent in full.
+ */
+export type PromptSection = 'description' | 'commits' | 'guidelines';
+
+/**
+ * A section that was shortened to fit the budget.
+ */
+export interface PromptTruncation {
+  section: PromptSection;
+  originalTokens: number;
+  keptTokens: number;
+}
+
+/**
+ * Prompt inputs after applying the budget.
+ */
+export interface BudgetedPromptInputs {
+  prData: PRData; // Only the text fields differ from the input
+  guidelines: string;
+  truncations: PromptTruncation[]; // Empty when everything fit
+}
+
+interface SectionSize {
+  section: PromptSection;
+  tokens: number;
+}
+
+/**
+ * Splits the budget between the sections in proportion to their size, so
+ * every section that has to give up tokens loses the same fraction of them.
+ * Small sections are kept whole first.
+ */
+function allocate(
+  sizes: readonly SectionSize[],
+  tokenBudget: number
+): Map<PromptSection, number> {
+  const shares = new Map<PromptSection, number>();
+  let remaining = tokenBudget;
+  const large: SectionSize[] = [];
+  sizes.forEach(size => {
+    if (size.tokens <= MIN_SECTION_TOKENS) {
+      shares.set(size.section, size.tokens);
+      remaining -= size.tokens;
+    } else {
+      large.push(size);
+    }
+  });
+  const largeTotal = large.reduce((sum, size) => sum + size.tokens, 0);
+  large.forEach(size => {
+    shares.set(
+      size.section,
+      Math.floor((Math.max(0, remaining) * size.tokens) / largeTotal)
+    );
+  });
+  return shares;
+}
+
+/**
+ * Shortens text to a budget, leaving room for the truncation note.
+ */
+function truncateText(text: string, tokenBudget: number): TruncatedText {
+  const fitted = truncateLines(text, tokenBudget);
+  if (fitted.omittedLines === 0) {
+    return fitted;
+  }
+  const noteTokens = estimateTokens(
+    withTruncationNote({ text: '', omittedLines: text.split('\n').length })
+  );
+  return truncateLines(text, tokenBudget - noteTokens);
+}
+
+/**
+ * Shares the commits budget between the messages in PR order; short messages
+ * pass their unused share on to later ones. The subject line is always kept,
+ * as it is what the commit rules and the AI judge first.
+ */
+function truncateCommits(
+  commits: readonly CommitData[],
+  tokenBudget: number
+): CommitData[] {
+  let remaining = tokenBudget;
+  return commits.map((commit, index) => {
+    const share = Math.floor(remaining / (commits.length - index));
+    let truncated = truncateText(commit.message, share);
+    if (truncated.text === '') {
+      const lines = commit.message.split('\n');
+      truncated = { text: lines[0] ?? '', omittedLines: lines.length - 1 };
+    }
+    const message = withTruncationNote(truncated);
+    remaining -= estimateTokens(message);
+    return { ...commit, message };
+  });
+}
+
+function commitsTokens(commits: readonly CommitData[]): number {
+  return commits.reduce(
+    (sum, commit) => sum + estimateTokens(commit.message),
+    0
+  );
+}
+
+/**
+ * Fits the description, commit messages and guidelines into a token budget.
+ *
+ * When everything fits, the inputs are returned unchanged. Otherwise each
+ * section over its share keeps its leading lines, followed by a note saying
+ * how many lines were left out. The budget is shared with the title, which is
+ * never cut.
+ *
+ * @param tokenBudget - Estimated tokens available for the title, description,
+ * commit messages and guidelines together
+ */
+export function fitPromptInputs(
+  prData: PRData,
+  guidelines: string,
+  tokenBudget: number = DEFAULT_PROMPT_TOKEN_BUDGET
+): BudgetedPromptInputs {
+  const sizes: SectionSize[] = [
+    { section: 'description', tokens: estimateTokens(prData.body) },
+    { section: 'commits', tokens: commitsTokens(prData.commits) },
+    { section: 'guidelines', tokens: estimateTokens(guidelines) },
+  ];
+  const textBudget = tokenBudget - estimateTokens(prData.title);
+  const total = sizes.reduce((sum, size) => sum + size.tokens, 0);
+  if (total <= textBudget) {
+    return { prData, guidelines, truncations: [] };
+  }
+
+  const shares = allocate(sizes, textBudget);
+  const share = (section: PromptSection): number => shares.get(section) ?? 0;
+  const body = withTruncationNote(
+    truncateText(prData.body, share('description'))
+  );
+  const commits = truncateCommits(prData.commits, share('commits'));
+  const fittedGuidelines = withTruncationNote(
+    truncateText(guidelines, share('guidelines'))
+  );
+
+  const kept: Record<PromptSection, number> = {
+    description: estimateTokens(body),
+    commits: commitsTokens(commits),
+    guidelines: estimateTokens(fittedGuidelines),
+  };
+  const truncations = sizes.flatMap(({ section, tokens }) => {
+    // eslint-disable-next-line security/detect-object-injection -- section is a closed union
+    const keptTokens = kept[section];
+    return keptTokens < tokens
+      ? [{ section, originalTokens: tokens, keptTokens }]
+      : [];
+  });
+
+  return {
+    prData: { ...prData, body, commits },
+    guidelines: fittedGuidelines,
+    truncations,
+  };
+}
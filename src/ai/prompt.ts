@@ -0,0 +1,423 @@
+/**
+ * Shared prompt construction and response parsing for all AI providers.
+ *
+ * Keeping the prompt text and the expected JSON shape in one place guarantees
+ * that switching providers changes only the transport, not the validation
+ * criteria or the structure of the verdict.
+ */
+
+import type { PRData } from '../github/client';
+import { AIProviderError } from './errors';
+import { summarizeChangedFiles } from './diff-summary';
+import {
+  ISSUE_CATEGORIES,
+  ISSUE_SEVERITIES,
+  type AIProviderName,
+  type AIValidationResult,
+  type CommitVerdict,
+  type PromptOptions,
+  type ValidationIssue,
+} from './provider';
+
+const VALID_STATUSES = ['PASS', 'FAIL', 'WARNINGS'] as const;
+
+// Abbreviated SHAs keep the prompt short; the validator maps them back to
+// the full SHAs of the PR's commits
+export const SHORT_SHA_LENGTH = 7;
+
+/**
+ * JSON Schema of the validation verdict, used by providers that accept a
+ * standard schema for structured output (OpenAI response_format, Anthropic tools).
+ */
+export const VALIDATION_RESPONSE_SCHEMA = {
+  type: 'object',
+  properties: {
+    issues: {
+      type: 'array',
+      description: 'Specific issues found with the PR',
+      items: {
+        type: 'object',
+        properties: {
+          severity: {
+            type: 'string',
+            enum: [...ISSUE_SEVERITIES],
+            description:
+              'error blocks merging, warning should be fixed, suggestion is optional',
+          },
+          category: {
+            type: 'string',
+            enum: [...ISSUE_CATEGORIES],
+            description: 'Part of the PR the issue is about',
+          },
+          target: {
+            type: 'string',
+            description: 'Abbreviated SHA for commit issues, otherwise empty',
+          },
+          message: {
+            type: 'string',
+            description: 'Description of the issue',
+          },
+        },
+        required: ['severity', 'category', 'target', 'message'],
+        additionalProperties: false,
+      },
+    },
+    improved_title: {
+      type: 'string',
+      description: 'Suggested improved PR title if needed',
+    },
+    improved_commits: {
+      type: 'string',
+      description: 'Suggested improved commit message if needed',
+    },
+    improved_description: {
+      type: 'string',
+      description: 'Suggested improved PR description if needed',
+    },
+    commits: {
+      type: 'array',
+      description: 'Verdict for each commit, in the order they were listed',
+      items: {
+        type: 'object',
+        properties: {
+          sha: {
+            type: 'string',
+            description: 'Abbreviated commit SHA exactly as listed',
+          },
+          status: {
+            type: 'string',
+            enum: [...VALID_STATUSES],
+            description: 'Status of this commit message',
+          },
+          issues: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'Issues with this commit message',
+          },
+          suggested_message: {
+            type: 'string',
+            description: 'Rewritten commit message, empty if it is fine',
+          },
+        },
+        required: ['sha', 'status', 'issues', 'suggested_message'],
+        additionalProperties: false,
+      },
+    },
+  },
+  required: [
+    'issues',
+    'improved_title',
+    'improved_commits',
+    'improved_description',
+    'commits',
+  ],
+  additionalProperties: false,
+};
+
+/**
+ * Generate text-format-focused validation prompt from PR data and guidelines.
+ *
+ * By default excludes code metrics (lines changed, files modified) to focus
+ * validation on objective text format criteria. This design choice reduces token
+ * usage, speeds up validation, and provides more predictable results. The
+ * opt-in `text+diff` scope adds a budgeted summary of the changed files, used
+ * only to check that the text describes the actual changes.
+ *
+ * @param prData - Complete PR data from GitHub API extraction
+ * @param guidelines - Project-specific contribution guidelines text
+ * @param options - Analysis scope, defaults to text only
+ * @returns Formatted prompt string focused on text format validation only
+ */
+export function buildValidationPrompt(
+  prData: PRData,
+  guidelines: string,
+  options: PromptOptions = {}
+): string {
+  if (options.analysisScope === 'text+diff') {
+    return `${buildTextPrompt(prData, guidelines)}
+
+**Changed Files:**
+${summarizeChangedFiles(prData.files)}
+
+IMPORTANT: Validate the text format (title, description, commit messages) and
+whether the text matches the changed files above. Flag titles, scopes, commit
+messages or descriptions that name areas the PR does not touch or leave out its
+main changes. Do NOT evaluate the code itself, architecture, or implementation details.`;
+  }
+
+  return `${buildTextPrompt(prData, guidelines)}
+
+IMPORTANT: Validate ONLY the text format (title, description, commit messages).
+Do NOT evaluate code changes, architecture, or implementation details.`;
+}
+
+function buildTextPrompt(prData: PRData, guidelines: string): string {
+  return `
+Analyze this pull request TEXT FORMAT against the contribution guidelines:
+
+**Pull Request Details:**
+- Title: ${prData.title}
+- Description: ${prData.body || 'No description provided'}
+
+**Commits:**
+${prData.commits.map(commit => `- ${commit.sha.substring(0, SHORT_SHA_LENGTH)}: ${commit.message} (by ${commit.author.name})`).join('\n')}
+
+**Contribution Guidelines:**
+${guidelines}`;
+}
+
+/**
+ * Appends the response format and status criteria to a validation prompt.
+ *
+ * The explicit exclusion of code evaluation ensures consistent, objective
+ * validation that doesn't vary based on subjective code quality opinions.
+ */
+export function buildStructuredPrompt(prompt: string): string {
+  return `${prompt}
+
+Return a JSON response analyzing ONLY the TEXT FORMAT of this pull request:
+{
+  "issues": [
+    {
+      "severity": "error" | "warning" | "suggestion",
+      "category": "title" | "commits" | "description" | "metadata",
+      "target": "abbreviated SHA for commit issues, otherwise empty",
+      "message": "text format issue only"
+    }
+  ],
+  "improved_title": "suggested improved PR title format",
+  "improved_commits": "suggested improved commit message format",
+  "improved_description": "suggested improved PR description structure",
+  "commits": [
+    {
+      "sha": "abbreviated SHA exactly as listed",
+      "status": "PASS" | "FAIL" | "WARNINGS",
+      "issues": ["format issues of this commit message only"],
+      "suggested_message": "rewritten commit message, or empty if it is fine"
+    }
+  ]
+}
+
+Return one "commits" entry for every listed commit, in the same order.
+
+TEXT FORMAT validation criteria ONLY:
+1. Commit message format (conventional commits: type(scope): description)
+2. PR title format and clarity
+3. PR description structure (has sections like What/Why/How)
+
+Do NOT evaluate:
+- Code quality or architecture
+- File changes appropriateness
+- Implementation details
+- Technical decisions
+
+Severity guidelines (the overall status is derived from them):
+- error: Significant format violations that must be fixed (non-conventional commits, missing description)
+- warning: Minor format issues or missing sections that should be fixed
+- suggestion: Optional polish; the PR meets the guidelines without it
+
+Focus ONLY on text formatting, NOT on what the code does.`;
+}
+
+/**
+ * Normalizes a parsed model response into a complete validation result.
+ *
+ * The status is derived from the issue severities rather than taken from
+ * the model, so it always agrees with the issues shown. Models occasionally
+ * omit fields or invent values; missing text fields become empty strings,
+ * unknown severities count as errors. An answer without an issue list is
+ * unusable: judging it as either a pass or a failure would be a guess.
+ *
+ * @throws AIProviderError (invalid-response) when `issues` is not an array
+ */
+export function normalizeValidationResult(
+  raw: unknown
+): Omit<
+  AIValidationResult,
+  'model' | 'provider' | 'fallbackFrom' | 'tokenUsage'
+> {
+  const data = (raw && typeof raw === 'object' ? raw : {}) as Record<
+    string,
+    unknown
+  >;
+  const asString = (value: unknown): string =>
+    typeof value === 'string' ? value : '';
+
+  if (!Array.isArray(data['issues'])) {
+    throw new AIProviderError(
+      'AI response did not contain an issue list',
+      'invalid-response'
+    );
+  }
+  const issues = data['issues'].flatMap(normalizeIssue);
+  const commits = Array.isArray(data['commits'])
+    ? data['commits'].flatMap(normalizeCommitVerdict)
+    : [];
+
+  return {
+    status: statusFromIssues(issues),
+    issues,
+    improved_title: asString(data['improved_title']),
+    improved_commits: asString(data['improved_commits']),
+    improved_description: asString(data['improved_description']),
+    ...(commits.length > 0 && { commits }),
+  };
+}
+
+/**
+ * Derives the overall status from issue severities: any error fails the PR,
+ * any warning passes it with warnings, and suggestions alone still pass.
+ */
+export function statusFromIssues(
+  issues: readonly ValidationIssue[]
+): 'PASS' | 'FAIL' | 'WARNINGS' {
+  if (issues.some(issue => issue.severity === 'error')) {
+    return 'FAIL';
+  }
+  if (issues.some(issue => issue.severity === 'warning')) {
+    return 'WARNINGS';
+  }
+  return 'PASS';
+}
+
+/**
+ * Plain strings from models that ignore the issue schema are kept as
+ * warnings; entries without a message are dropped.
+ */
+function normalizeIssue(raw: unknown): ValidationIssue[] {
+  if (typeof raw === 'string') {
+    return raw.trim() === ''
+      ? []
+      : [{ severity: 'warning', category: 'metadata', message: raw }];
+  }
+  const data = (raw && typeof raw === 'object' ? raw : {}) as Record<
+    string,
+    unknown
+  >;
+  const { message, target } = data;
+  if (typeof message !== 'string' || message.trim() === '') {
+    return [];
+  }
+  return [
+    {
+      severity: ISSUE_SEVERITIES.find(s => s === data['severity']) ?? 'error',
+      category:
+        ISSUE_CATEGORIES.find(c => c === data['category']) ?? 'metadata',
+      ...(typeof target === 'string' &&
+        target.trim() !== '' && { target: target.trim() }),
+      message,
+    },
+  ];
+}
+
+function asStringArray(value: unknown): string[] {
+  return Array.isArray(value)
+    ? value.filter((i): i is string => typeof i === 'string')
+    : [];
+}
+
+/**
+ * Entries without a SHA cannot be attributed to a commit and are dropped.
+ */
+function normalizeCommitVerdict(raw: unknown): CommitVerdict[] {
+  const data = (raw && typeof raw === 'object' ? raw : {}) as Record<
+    string,
+    unknown
+  >;
+  const { sha, suggested_message: suggested } = data;
+  if (typeof sha !== 'string' || sha.trim() === '') {
+    return [];
+  }
+  return [
+    {
+      sha: sha.trim(),
+      status: VALID_STATUSES.find(s => s === data['status']) ?? 'FAIL',
+      issues: asStringArray(data['issues']),
+      suggested_message: typeof suggested === 'string' ? suggested : '',
+    },
+  ];
+}
+
+/**
+ * Replaces the abbreviated SHAs echoed by the model with the full SHAs of
+ * the PR's commits, dropping verdicts for commits that are not in the PR.
+ */
+export function resolveCommitVerdicts(
+  verdicts: readonly CommitVerdict[],
+  shas: readonly string[]
+): CommitVerdict[] {
+  return verdicts.flatMap(verdict => {
+    const sha = shas.find(full => full.startsWith(verdict.sha));
+    return sha ? [{ ...verdict, sha }] : [];
+  });
+}
+
+/**
+ * Same as resolveCommitVerdicts for the targets of commit issues. Targets
+ * that match no commit are kept as written.
+ */
+export function resolveIssueTargets(
+  issues: readonly ValidationIssue[],
+  shas: readonly string[]
+): ValidationIssue[] {
+  return issues.map(issue => {
+    const { category, target } = issue;
+    const sha =
+      category === 'commits' && target
+        ? shas.find(full => full.startsWith(target))
+        : undefined;
+    return sha ? { ...issue, target: sha } : issue;
+  });
+}
+
+/**
+ * Extracts the JSON object from a model's text answer.
+ *
+ * Providers without native JSON mode sometimes wrap the object in markdown
+ * code fences or add a sentence around it.
+ */
+export function parseJsonResponse(text: string): unknown {
+  const fenced = /```(?:json)?\s*([\s\S]*?)```/.exec(text);
+  const candidate = (fenced?.[1] ?? text).trim();
+  const start = candidate.indexOf('{');
+  const end = candidate.lastIndexOf('}');
+  if (start === -1 || end < start) {
+    throw new AIProviderError(
+      'AI response did not contain a JSON object',
+      'invalid-response'
+    );
+  }
+  return JSON.parse(candidate.slice(start, end + 1));
+}
+
+/**
+ * Fallback result used when the AI service cannot be reached or answers
+ * with something unusable. ERROR rather than FAIL keeps an outage from being
+ * reported as a guideline violation. Empty strings for improved_* fields
+ * maintain interface consistency while gracefully degrading.
+ */
+export function unavailableResult(
+  model: string,
+  provider: AIProviderName
+): AIValidationResult {
+  return {
+    status: 'ERROR',
+    issues: [
+      {
+        severity: 'error',
+        category: 'metadata',
+        message: 'AI validation unavailable - please review manually',
+      },
+    ],
+    improved_title: '',
+    improved_commits: '',
+    improved_description: '',
+    model,
+    provider,
+    tokenUsage: {
+      promptTokens: 0,
+      completionTokens: 0,
+      totalTokens: 0,
+    },
+  };
+}
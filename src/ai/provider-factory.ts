@@ -0,0 +1,83 @@
+import { AnthropicClient } from './anthropic-client';
+import { GeminiClient } from './gemini-client';
+import { OpenAIClient } from './openai-client';
+import { AI_PROVIDER_NAMES } from './provider';
+import type { AIProvider, AIProviderName } from './provider';
+
+/**
+ * Settings needed to construct a single AI provider.
+ */
+export interface AIProviderOptions {
+  provider: AIProviderName;
+  apiKey: string;
+  /** Provider default is used when omitted */
+  model?: string;
+  /** Only honored by OpenAI-compatible providers */
+  baseUrl?: string;
+}
+
+/**
+ * Narrows an input string to a known provider name.
+ */
+export function isAIProviderName(value: string): value is AIProviderName {
+  return (AI_PROVIDER_NAMES as readonly string[]).includes(value);
+}
+
+/**
+ * Instantiates the AI provider selected by configuration.
+ *
+ * @throws Error when the API key for the selected provider is missing or the
+ * model is not accepted by the provider
+ */
+export function createAIProvider(options: AIProviderOptions): AIProvider {
+  if (!options.apiKey || options.apiKey.trim() === '') {
+    throw new Error(
+      `An API key is required for AI provider "${options.provider}"`
+    );
+  }
+
+  switch (options.provider) {
+    case 'gemini':
+      return new GeminiClient(options.apiKey, options.model);
+    case 'openai':
+      return new OpenAIClient(options.apiKey, options.model, options.baseUrl);
+    case 'anthropic':
+      return new AnthropicClient(options.apiKey, options.model);
+  }
+}
+
+/**
+ * One link of a provider fallback chain; the provider default model is used
+ * when no model is given.
+ */
+export interface ProviderChainEntry {
+  provider: AIProviderName;
+  model?: string;
+}
+
+/**
+ * Parses a fallback chain such as `openai:gpt-4o-mini, anthropic`.
+ *
+ * Entries are separated by commas or newlines and written as `provider` or
+ * `provider:model`.
+ *
+ * @throws Error naming the first entry with an unknown provider
+ */
+export function parseProviderChain(spec: string): ProviderChainEntry[] {
+  return spec
+    .split(/[,\n]/)
+    .map(entry => entry.trim())
+    .filter(entry => entry !== '')
+    .map(entry => {
+      const separator = entry.indexOf(':');
+      const provider =
+        separator === -1 ? entry : entry.slice(0, separator).trim();
+      const model = separator === -1 ? '' : entry.slice(separator + 1).trim();
+      if (!isAIProviderName(provider)) {
+        throw new Error(
+          `Invalid ai-fallback entry "${entry}": provider must be one of ${AI_PROVIDER_NAMES.join(', ')}`
+        );
+      }
+      return model ? { provider, model } : { provider };
+    });
+}
@@ -0,0 +1,150 @@
+/**
+ * AI Provider Contract
+ *
+ * Common interface implemented by every AI backend (Gemini, OpenAI-compatible,
+ * Anthropic). The validator only depends on this contract, so providers can be
+ * swapped through configuration without touching orchestration code.
+ */
+
+import type { PRData } from '../github/client';
+
+export type AIProviderName = 'gemini' | 'openai' | 'anthropic';
+
+export const AI_PROVIDER_NAMES: readonly AIProviderName[] = [
+  'gemini',
+  'openai',
+  'anthropic',
+];
+
+/**
+ * Token accounting reported by the provider for cost visibility.
+ */
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export type IssueSeverity = 'error' | 'warning' | 'suggestion';
+
+export const ISSUE_SEVERITIES: readonly IssueSeverity[] = [
+  'error',
+  'warning',
+  'suggestion',
+];
+
+/**
+ * Part of the contribution an issue is about.
+ */
+export type IssueCategory = 'title' | 'commits' | 'description' | 'metadata';
+
+export const ISSUE_CATEGORIES: readonly IssueCategory[] = [
+  'title',
+  'commits',
+  'description',
+  'metadata',
+];
+
+/**
+ * A single finding. The severity separates blocking problems (error) from
+ * recommendations (warning) and nits (suggestion); the overall status is
+ * derived from it.
+ */
+export interface ValidationIssue {
+  severity: IssueSeverity;
+  category: IssueCategory;
+  target?: string; // What the issue points at, e.g. a commit SHA
+  message: string;
+}
+
+/**
+ * Verdict on a single commit message, so contributors can see which commits
+ * need rewording instead of guessing from one combined suggestion.
+ */
+export interface CommitVerdict {
+  sha: string;
+  status: 'PASS' | 'FAIL' | 'WARNINGS';
+  issues: string[];
+  suggested_message: string; // Empty when the message is fine as written
+}
+
+/**
+ * Structured validation response shared by all providers.
+ *
+ * Designed for consistent parsing across different AI providers while maintaining
+ * cost visibility through token usage metrics.
+ */
+export interface AIValidationResult {
+  status: 'PASS' | 'FAIL' | 'WARNINGS' | 'ERROR'; // ERROR: no verdict was obtained
+  issues: ValidationIssue[];
+  improved_title: string;
+  improved_commits: string;
+  improved_description: string;
+  commits?: CommitVerdict[]; // One entry per reviewed commit, in PR order
+  model?: string;
+  provider?: AIProviderName; // Provider that produced the verdict
+  fallbackFrom?: string[]; // "provider/model" entries that failed before it
+  tokenUsage?: TokenUsage;
+}
+
+/**
+ * What the AI is shown: only the PR text, or the text plus a summary of the
+ * changed files so it can check that both agree.
+ */
+export type AnalysisScope = 'text' | 'text+diff';
+
+export const ANALYSIS_SCOPES: readonly AnalysisScope[] = ['text', 'text+diff'];
+
+/**
+ * Options for building the validation prompt.
+ */
+export interface PromptOptions {
+  analysisScope?: AnalysisScope; // Defaults to 'text'
+}
+
+/**
+ * Per-request options for AIProvider calls.
+ */
+export interface AIRequestOptions {
+  /** Aborts the in-flight request, e.g. when the validation budget runs out */
+  signal?: AbortSignal;
+}
+
+/**
+ * An AI backend able to judge a PR against contribution guidelines.
+ */
+export interface AIProvider {
+  /** Provider identifier used in configuration and reports */
+  readonly name: AIProviderName;
+  /** Model name sent to the provider's API */
+  readonly model: string;
+
+  /**
+   * Builds the provider-independent validation prompt from PR data.
+   */
+  generateValidationPrompt(
+    prData: PRData,
+    guidelines: string,
+    options?: PromptOptions
+  ): string;
+
+  /**
+   * Sends the prompt to the model and returns its structured verdict together
+   * with token usage.
+   *
+   * @throws AIProviderError classifying why no usable verdict was obtained
+   */
+  requestValidation(
+    prompt: string,
+    options?: AIRequestOptions
+  ): Promise<AIValidationResult>;
+
+  /**
+   * Same as requestValidation, but never rejects: failures degrade to an
+   * ERROR result asking for manual review.
+   */
+  validateContent(
+    prompt: string,
+    options?: AIRequestOptions
+  ): Promise<AIValidationResult>;
+}
@@ -0,0 +1,79 @@
+/**
+ * Token Estimation
+ *
+ * Prompt sizes are estimated locally instead of asking each provider's
+ * tokenizer, which would cost a request per prompt and differ per provider.
+ */
+
+// English prose averages about four characters per token across the
+// supported providers' tokenizers
+const CHARS_PER_TOKEN = 4;
+
+/**
+ * Estimates the number of tokens a text occupies without calling a
+ * tokenizer. Real counts differ by provider, so this is only good for
+ * budgeting and for spotting unexpectedly large prompts.
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Text cut down to a token budget.
+ */
+export interface TruncatedText {
+  text: string;
+  omittedLines: number; // 0 when the text fit as is
+}
+
+/**
+ * Keeps as many whole leading lines as fit into the budget, so truncated
+ * diffs and messages stay readable line by line. The first line that does
+ * not fit is cut to the remaining budget, so single-line texts such as a
+ * one-paragraph description are shortened rather than dropped.
+ */
+export function truncateLines(
+  text: string,
+  tokenBudget: number
+): TruncatedText {
+  if (estimateTokens(text) <= tokenBudget) {
+    return { text, omittedLines: 0 };
+  }
+  const lines = text.split('\n');
+  const maxChars = Math.max(0, tokenBudget) * CHARS_PER_TOKEN;
+  let length = 0;
+  let kept = 0;
+  for (const line of lines) {
+    // +1 for the newline joining it to the previous line
+    const next = length + line.length + (kept > 0 ? 1 : 0);
+    if (next > maxChars) {
+      break;
+    }
+    length = next;
+    kept++;
+  }
+  const whole = lines.slice(0, kept).join('\n');
+  // The cut line still counts as omitted, as its end is missing
+  const separator = kept > 0 ? '\n' : '';
+  const room = maxChars - length - separator.length;
+  const partial = room > 0 ? (lines.at(kept) ?? '').slice(0, room) : '';
+  return {
+    text: partial ? `${whole}${separator}${partial}` : whole,
+    omittedLines: lines.length - kept,
+  };
+}
+
+/**
+ * Renders truncated text with a note on how much was cut, so the AI does not
+ * mistake a shortened text for the complete one.
+ */
+export function withTruncationNote({
+  text,
+  omittedLines,
+}: TruncatedText): string {
+  if (omittedLines === 0) {
+    return text;
+  }
+  const note = `... (${omittedLines} more lines truncated)`;
+  return text ? `${text}\n${note}` : note;
+}
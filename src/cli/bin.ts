@@ -0,0 +1,12 @@
+#!/usr/bin/env node
+/**
+ * Executable for the `ai-validate` command. Kept separate from the CLI module
+ * so importing that module in tests does not start a run.
+ */
+
+import { runCli } from './index';
+
+// eslint-disable-next-line @typescript-eslint/no-floating-promises
+runCli(process.argv.slice(2)).then(code => {
+  process.exitCode = code;
+});
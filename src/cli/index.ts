@@ -0,0 +1,305 @@
+/**
+ * Command Line Interface
+ *
+ * Validates a local commit range or an existing pull request outside GitHub
+ * Actions, so contributors can check their work before pushing. Reuses the
+ * action's settings, validator and formatter; only the way PR data and
+ * settings are obtained differs.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { parseArgs } from 'util';
+import { GitHubClient } from '../github/client';
+import { Validator, type ValidationReport } from '../core/validator';
+import { ResultFormatter } from '../core/formatter';
+import { GuidelinesLoader } from '../guidelines/loader';
+import {
+  DEFAULT_CONFIG_PATH,
+  parseRepoConfig,
+  type RepoConfig,
+} from '../config/repo-config';
+import {
+  createAIProviderFromSettings,
+  readValidationConfig,
+  type SettingReader,
+} from '../config/settings';
+import {
+  DEFAULT_RANGE,
+  detectGitHubRepository,
+  localRepository,
+  readLocalPRData,
+} from './local-git';
+
+/**
+ * Action inputs that can be passed as flags of the same name.
+ */
+const SETTING_FLAGS = [
+  'ai-provider',
+  'ai-fallback',
+  'gemini-model',
+  'openai-model',
+  'openai-base-url',
+  'anthropic-model',
+  'guidelines-file',
+  'max-pr-size',
+  'timeout-seconds',
+  'commit-rules',
+  'commit-types',
+  'commit-scope-pattern',
+  'analysis-scope',
+  'max-prompt-tokens',
+] as const;
+
+// Secrets are only read from the environment so they stay out of shell history
+const SETTING_ENV_VARS: Record<string, string> = {
+  'gemini-api-key': 'GEMINI_API_KEY',
+  'openai-api-key': 'OPENAI_API_KEY',
+  'anthropic-api-key': 'ANTHROPIC_API_KEY',
+};
+
+type Environment = Record<string, string | undefined>;
+
+const OUTPUT_FORMATS = ['markdown', 'json'] as const;
+type OutputFormat = (typeof OUTPUT_FORMATS)[number];
+
+/**
+ * Process exit codes. Usage and runtime errors share a code with ERROR
+ * reports, since in both cases no verdict was reached.
+ */
+export const EXIT_CODES = {
+  success: 0,
+  failed: 1,
+  error: 2,
+} as const;
+
+export const USAGE = `Usage: ai-validate [range] [options]
+       ai-validate --pr <number> [--repo <owner/repo>] [options]
+
+Validates the commits in a local range (default ${DEFAULT_RANGE}) or an
+existing pull request against the contribution guidelines.
+
+Options:
+  --pr <number>          Validate a pull request; needs GITHUB_TOKEN or GH_TOKEN
+  --repo <owner/repo>    Repository of the pull request (default: origin remote)
+  --title <text>         PR title for a local range (default: oldest commit subject)
+  --body <text>          PR description for a local range
+  --format <format>      Output format: markdown or json (default: markdown)
+  --config-file <path>   Configuration file (default: ${DEFAULT_CONFIG_PATH})
+  --dry-run              Print the AI prompt and its estimated size instead of
+                         calling the AI; no API key needed
+  --<input> <value>      Any of: ${SETTING_FLAGS.join(', ')}
+  -h, --help             Show this help
+
+API keys are read from GEMINI_API_KEY, OPENAI_API_KEY and ANTHROPIC_API_KEY.
+Exits with 1 when validation fails and 2 when it could not be completed.
+`;
+
+/**
+ * Flags win over environment variables, which win over the configuration file.
+ */
+function createSettingReader(
+  flags: Record<string, string | undefined>,
+  env: Environment,
+  repoConfig?: RepoConfig
+): SettingReader {
+  return name => {
+    // eslint-disable-next-line security/detect-object-injection -- names come from the settings helpers
+    const envVar = SETTING_ENV_VARS[name];
+    // Empty values count as unset, like empty action inputs
+    return (
+      [
+        // eslint-disable-next-line security/detect-object-injection -- names come from the settings helpers
+        flags[name],
+        // eslint-disable-next-line security/detect-object-injection -- variable names are fixed above
+        envVar === undefined ? undefined : env[envVar],
+        repoConfig?.settings.get(name),
+      ].find(value => value) ?? ''
+    );
+  };
+}
+
+/**
+ * Reads the configuration file from the working tree. Unlike the action,
+ * which trusts only the base branch, the CLI runs on the contributor's own
+ * machine, so the checked-out file is what they expect to be used.
+ */
+function loadLocalRepoConfig(
+  cwd: string,
+  configPath: string
+): RepoConfig | undefined {
+  const filePath = path.resolve(cwd, configPath);
+  // eslint-disable-next-line security/detect-non-literal-fs-filename -- path chosen by the user running the CLI
+  if (!fs.existsSync(filePath)) {
+    return undefined;
+  }
+  // eslint-disable-next-line security/detect-non-literal-fs-filename -- path chosen by the user running the CLI
+  return parseRepoConfig(fs.readFileSync(filePath, 'utf8'), configPath);
+}
+
+function parseRepository(value: string): { owner: string; repo: string } {
+  const [owner, repo, ...rest] = value.split('/');
+  if (!owner || !repo || rest.length > 0) {
+    throw new Error(`Invalid --repo "${value}": expected owner/repo`);
+  }
+  return { owner, repo };
+}
+
+function exitCodeFor(report: ValidationReport): number {
+  switch (report.status) {
+    case 'FAIL':
+      return EXIT_CODES.failed;
+    case 'ERROR':
+      return EXIT_CODES.error;
+    default:
+      return EXIT_CODES.success;
+  }
+}
+
+/**
+ * Runs the CLI with the given arguments, writing the report to stdout and
+ * errors to stderr.
+ *
+ * @returns The process exit code
+ */
+export async function runCli(
+  args: string[],
+  env: Environment = process.env,
+  cwd: string = process.cwd()
+): Promise<number> {
+  try {
+    const { values, positionals } = parseArgs({
+      args,
+      allowPositionals: true,
+      options: {
+        pr: { type: 'string' },
+        repo: { type: 'string' },
+        title: { type: 'string' },
+        body: { type: 'string' },
+        format: { type: 'string' },
+        'config-file': { type: 'string' },
+        'dry-run': { type: 'boolean' },
+        help: { type: 'boolean', short: 'h' },
+        ...Object.fromEntries(
+          SETTING_FLAGS.map(name => [name, { type: 'string' as const }])
+        ),
+      },
+    });
+
+    if (values.help) {
+      process.stdout.write(USAGE);
+      return EXIT_CODES.success;
+    }
+    if (positionals.length > 1) {
+      throw new Error(`Expected at most one range, got ${positionals.length}`);
+    }
+    const format = values.format ?? 'markdown';
+    if (!OUTPUT_FORMATS.includes(format as OutputFormat)) {
+      throw new Error(
+        `Invalid --format "${format}": must be one of ${OUTPUT_FORMATS.join(', ')}`
+      );
+    }
+    const prNumber = values.pr === undefined ? undefined : Number(values.pr);
+    if (
+      prNumber !== undefined &&
+      (!Number.isInteger(prNumber) || prNumber <= 0)
+    ) {
+      throw new Error(
+        `Invalid --pr "${values.pr}": must be a positive integer`
+      );
+    }
+    if (prNumber !== undefined && positionals.length > 0) {
+      throw new Error('A range cannot be combined with --pr');
+    }
+
+    const repoConfig = loadLocalRepoConfig(
+      cwd,
+      values['config-file'] ?? DEFAULT_CONFIG_PATH
+    );
+    const read = createSettingReader(
+      values as Record<string, string | undefined>,
+      env,
+      repoConfig
+    );
+
+    const dryRun = values['dry-run'] ?? false;
+    // A dry run never calls the AI, so it must not require an API key
+    const aiProvider = dryRun ? undefined : createAIProviderFromSettings(read);
+    const config = {
+      ...readValidationConfig(read),
+      ...(dryRun && { dryRun }),
+    };
+
+    let report: ValidationReport;
+    if (prNumber !== undefined) {
+      const githubToken =
+        [env['GITHUB_TOKEN'], env['GH_TOKEN']].find(token => token) ?? '';
+      if (!githubToken) {
+        throw new Error('--pr requires GITHUB_TOKEN or GH_TOKEN to be set');
+      }
+      const repository = values.repo
+        ? parseRepository(values.repo)
+        : detectGitHubRepository(cwd);
+      if (!repository) {
+        throw new Error(
+          'Could not detect the repository from the origin remote; pass --repo owner/repo'
+        );
+      }
+      // Actions annotations would end up in stdout, which may be piped JSON
+      const githubClient = new GitHubClient(githubToken, {
+        onWarning: (message: string): void => {
+          process.stderr.write(`Warning: ${message}\n`);
+        },
+      });
+      const validator = new Validator(
+        { ...config, githubToken },
+        githubClient,
+        aiProvider
+      );
+      report = await validator.validate(
+        repository.owner,
+        repository.repo,
+        prNumber
+      );
+    } else {
+      const prData = readLocalPRData(positionals[0] ?? DEFAULT_RANGE, {
+        cwd,
+        ...(values.title !== undefined && { title: values.title }),
+        ...(values.body !== undefined && { body: values.body }),
+      });
+      // Guidelines are read from the working tree, as there is no GitHub
+      // client to fetch them from the base branch
+      const validator = new Validator(
+        config,
+        undefined,
+        aiProvider,
+        new GuidelinesLoader(undefined, cwd)
+      );
+      report = await validator.validatePRData(
+        prData,
+        values.repo ? parseRepository(values.repo) : localRepository(cwd)
+      );
+    }
+
+    if (format === 'json') {
+      process.stdout.write(`${JSON.stringify(report, null, 2)}\n`);
+    } else if (report.dryRun) {
+      // The estimate goes to stderr so stdout can be piped as the bare prompt
+      process.stdout.write(`${report.dryRun.prompt}\n`);
+      process.stderr.write(
+        `Estimated prompt tokens: ${report.dryRun.estimatedTokens}\n`
+      );
+    } else {
+      process.stdout.write(
+        `${new ResultFormatter(repoConfig?.templates).formatToMarkdown(report)}\n`
+      );
+    }
+    // A dry run reached no verdict, so it does not fail on rule findings
+    return report.dryRun ? EXIT_CODES.success : exitCodeFor(report);
+  } catch (error) {
+    process.stderr.write(
+      `ai-validate: ${error instanceof Error ? error.message : String(error)}\n`
+    );
+    return EXIT_CODES.error;
+  }
+}
@@ -0,0 +1,245 @@
+/**
+ * Local Git Reader
+ *
+ * Builds PR data from a commit range in a local checkout, so contributors can
+ * validate their commits before pushing. The result has the same shape as
+ * GitHubClient.extractPRData, letting the validator treat both alike.
+ */
+
+import { execFileSync } from 'child_process';
+import * as path from 'path';
+import type { CommitData, DiffStats, FileData, PRData } from '../github/client';
+
+/**
+ * Range validated when none is given: the commits a PR against main would add.
+ */
+export const DEFAULT_RANGE = 'origin/main..HEAD';
+
+// Field and record separators that cannot appear in commit metadata
+const FIELD_SEPARATOR = '\x00';
+const RECORD_SEPARATOR = '\x1e';
+const LOG_FORMAT = `${['%H', '%an', '%ae', '%aI', '%B'].join('%x00')}%x1e`;
+
+// Large enough for the log and numstat of ranges with thousands of commits
+const MAX_GIT_OUTPUT_BYTES = 64 * 1024 * 1024;
+
+// git diff --name-status letters mapped to the status names GitHub reports
+const FILE_STATUSES: Record<string, string> = {
+  A: 'added',
+  D: 'removed',
+  M: 'modified',
+  T: 'changed',
+};
+
+/**
+ * Options for reading a local commit range.
+ */
+export interface LocalPROptions {
+  cwd?: string;
+  title?: string; // Defaults to the subject of the oldest commit
+  body?: string; // Defaults to the body of the only commit, if there is one
+}
+
+/**
+ * Base and head of a commit range such as `main..HEAD` or `main...feature`.
+ */
+export interface CommitRange {
+  base: string;
+  head: string;
+}
+
+/**
+ * Splits a range into its base and head. A single revision is treated as the
+ * base, with HEAD as the head.
+ *
+ * @throws Error when either side of the range is empty
+ */
+export function parseRange(range: string): CommitRange {
+  const trimmed = range.trim();
+  const separator = trimmed.includes('...') ? '...' : '..';
+  const [base = '', head = 'HEAD'] = trimmed.split(separator);
+  if (!base || !head) {
+    throw new Error(
+      `Invalid range "${range}": expected <base>..<head> or <base>`
+    );
+  }
+  return { base, head };
+}
+
+function git(args: string[], cwd: string): string {
+  try {
+    return execFileSync('git', args, {
+      cwd,
+      encoding: 'utf8',
+      maxBuffer: MAX_GIT_OUTPUT_BYTES,
+      stdio: ['ignore', 'pipe', 'pipe'],
+    });
+  } catch (error) {
+    const stderr =
+      error && typeof error === 'object' && 'stderr' in error
+        ? String((error as { stderr: unknown }).stderr).trim()
+        : '';
+    throw new Error(
+      `git ${args[0] ?? ''} failed: ${stderr || (error instanceof Error ? error.message : String(error))}`
+    );
+  }
+}
+
+function readCommits({ base, head }: CommitRange, cwd: string): CommitData[] {
+  const output = git(
+    ['log', '--reverse', `--format=${LOG_FORMAT}`, `${base}..${head}`],
+    cwd
+  );
+  return output
+    .split(RECORD_SEPARATOR)
+    .map(record => record.replace(/^\n/, ''))
+    .filter(record => record !== '')
+    .map(record => {
+      const [sha = '', name = '', email = '', date = '', message = ''] =
+        record.split(FIELD_SEPARATOR);
+      return {
+        sha,
+        message: message.trimEnd(),
+        author: { name, email, date },
+      };
+    });
+}
+
+/**
+ * Splits a unified diff into per-file patches in GitHub's format, which
+ * starts at the first hunk header. Binary files have no hunks and no patch.
+ */
+function readPatches(diffRange: string, cwd: string): Map<string, string> {
+  const patches = new Map<string, string>();
+  for (const section of git(['diff', '--no-renames', diffRange], cwd).split(
+    /^diff --git /m
+  )) {
+    // Deleted files only name their old path
+    const filename =
+      /^\+\+\+ b\/(.*)$/m.exec(section)?.[1] ??
+      /^--- a\/(.*)$/m.exec(section)?.[1];
+    const hunkStart = section.search(/^@@/m);
+    if (filename && hunkStart !== -1) {
+      patches.set(filename, section.slice(hunkStart).trimEnd());
+    }
+  }
+  return patches;
+}
+
+/**
+ * Reads the changed files the way GitHub compares a PR: against the merge
+ * base, so commits that landed on the base branch meanwhile are not counted.
+ * Renames are reported as a removal plus an addition.
+ */
+function readFiles({ base, head }: CommitRange, cwd: string): FileData[] {
+  const diffRange = `${base}...${head}`;
+  const statuses = new Map<string, string>();
+  for (const line of git(
+    ['diff', '--no-renames', '--name-status', diffRange],
+    cwd
+  ).split('\n')) {
+    const [letter = '', filename] = line.split('\t');
+    if (filename) {
+      // eslint-disable-next-line security/detect-object-injection -- unknown letters fall back below
+      statuses.set(filename, FILE_STATUSES[letter] ?? 'modified');
+    }
+  }
+
+  const patches = readPatches(diffRange, cwd);
+
+  return git(['diff', '--no-renames', '--numstat', diffRange], cwd)
+    .split('\n')
+    .filter(line => line !== '')
+    .map(line => {
+      const [added = '', deleted = '', filename = ''] = line.split('\t');
+      // Binary files report "-" instead of line counts
+      const additions = Number(added) || 0;
+      const deletions = Number(deleted) || 0;
+      const patch = patches.get(filename);
+      return {
+        filename,
+        status: statuses.get(filename) ?? 'modified',
+        additions,
+        deletions,
+        changes: additions + deletions,
+        ...(patch !== undefined && { patch }),
+      };
+    });
+}
+
+/**
+ * Reads the commits and changed files of a local range as PR data.
+ *
+ * @throws Error when git fails or the range contains no commits
+ */
+export function readLocalPRData(
+  range: string,
+  options: LocalPROptions = {}
+): PRData {
+  const cwd = options.cwd ?? process.cwd();
+  const commitRange = parseRange(range);
+  const commits = readCommits(commitRange, cwd);
+  const [oldest] = commits;
+  if (!oldest) {
+    throw new Error(`No commits found in range "${range}"`);
+  }
+  const files = readFiles(commitRange, cwd);
+
+  const [subject = '', ...bodyLines] = oldest.message.split('\n');
+  const diffStats: DiffStats = {
+    totalAdditions: files.reduce((sum, file) => sum + file.additions, 0),
+    totalDeletions: files.reduce((sum, file) => sum + file.deletions, 0),
+    totalChanges: files.reduce((sum, file) => sum + file.changes, 0),
+    filesChanged: files.length,
+  };
+
+  return {
+    // Not a real PR; 0 can never collide with a GitHub PR number
+    number: 0,
+    title: options.title ?? subject,
+    body:
+      options.body ?? (commits.length === 1 ? bodyLines.join('\n').trim() : ''),
+    commits,
+    files,
+    diffStats,
+    baseRef: commitRange.base,
+  };
+}
+
+/**
+ * Derives owner and repository name from the `origin` remote when it points
+ * at GitHub.
+ *
+ * @returns The repository, or undefined when there is no GitHub origin
+ */
+export function detectGitHubRepository(
+  cwd: string = process.cwd()
+): { owner: string; repo: string } | undefined {
+  let url: string;
+  try {
+    url = git(['remote', 'get-url', 'origin'], cwd).trim();
+  } catch {
+    return undefined;
+  }
+  const match = /github\.com[:/]([^/]+)\/([^/]+?)(?:\.git)?\/?$/.exec(url);
+  if (!match?.[1] || !match[2]) {
+    return undefined;
+  }
+  return { owner: match[1], repo: match[2] };
+}
+
+/**
+ * Repository used for local ranges outside a GitHub checkout; only shows up
+ * in error messages.
+ */
+export function localRepository(cwd: string = process.cwd()): {
+  owner: string;
+  repo: string;
+} {
+  return (
+    detectGitHubRepository(cwd) ?? {
+      owner: 'local',
+      repo: path.basename(path.resolve(cwd)),
+    }
+  );
+}
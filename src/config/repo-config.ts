@@ -0,0 +1,139 @@
+/**
+ * Repository Configuration
+ *
+ * Reads `.github/ai-validator.yml` from the PR's base branch so a repository
+ * can keep its validation settings next to its code instead of repeating them
+ * in every workflow. Keys are named after the action inputs they stand in for;
+ * explicit inputs still win, so one workflow can override the shared file.
+ *
+ * Precedence: built-in defaults < config file < explicit action inputs
+ */
+
+import { parse as parseYaml } from 'yaml';
+import { z } from 'zod';
+import type { GitHubClient } from '../github/client';
+import type { CommentTemplates } from '../core/formatter';
+
+export const DEFAULT_CONFIG_PATH = '.github/ai-validator.yml';
+
+// Lists may be written as YAML sequences or as the comma-separated strings
+// accepted by the corresponding inputs
+const stringList = z
+  .union([z.string(), z.array(z.string())], {
+    error: 'Expected a string or a list of strings',
+  })
+  .transform(value => (Array.isArray(value) ? value.join(',') : value));
+
+const positiveInt = z.number().int().positive();
+
+const RepoConfigSchema = z.strictObject({
+  'ai-provider': z.enum(['gemini', 'openai', 'anthropic', 'none']).optional(),
+  'ai-fallback': stringList.optional(),
+  'gemini-model': z.string().optional(),
+  'openai-model': z.string().optional(),
+  'openai-base-url': z.url().optional(),
+  'anthropic-model': z.string().optional(),
+  'guidelines-file': z.string().min(1).optional(),
+  'skip-authors': stringList.optional(),
+  'max-pr-size': positiveInt.optional(),
+  'timeout-seconds': positiveInt.optional(),
+  'max-prompt-tokens': positiveInt.optional(),
+  'fail-on-errors': z.boolean().optional(),
+  'report-mode': z.enum(['comment', 'check', 'both']).optional(),
+  'commit-rules': stringList.optional(),
+  'commit-types': stringList.optional(),
+  'commit-scope-pattern': z.string().optional(),
+  'analysis-scope': z.enum(['text', 'text+diff']).optional(),
+  templates: z
+    .strictObject({
+      header: z.string().optional(),
+      footer: z.string().optional(),
+    })
+    .optional(),
+});
+
+/**
+ * Parsed configuration file. Input-like settings are kept as input strings so
+ * they go through the same parsing and validation as action inputs.
+ */
+export interface RepoConfig {
+  path: string;
+  settings: ReadonlyMap<string, string>;
+  templates: CommentTemplates;
+}
+
+function formatIssue(issue: z.core.$ZodIssue): string {
+  const location = issue.path.length > 0 ? `${issue.path.join('.')}: ` : '';
+  if (issue.code === 'unrecognized_keys') {
+    const keys = issue.keys.map(key => `"${key}"`).join(', ');
+    return `${location}unknown key${issue.keys.length > 1 ? 's' : ''} ${keys}`;
+  }
+  return `${location}${issue.message}`;
+}
+
+/**
+ * Parses and validates the configuration file content.
+ *
+ * @param text - YAML file content
+ * @param path - File path, used in error messages
+ * @throws Error naming the file and every invalid or unknown key
+ */
+export function parseRepoConfig(text: string, path: string): RepoConfig {
+  let raw: unknown;
+  try {
+    raw = parseYaml(text);
+  } catch (error) {
+    throw new Error(
+      `Invalid YAML in ${path}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+
+  // A file holding only comments parses to null and configures nothing
+  const result = RepoConfigSchema.safeParse(raw ?? {});
+  if (!result.success) {
+    throw new Error(
+      `Invalid configuration in ${path}: ${result.error.issues.map(formatIssue).join('; ')}`
+    );
+  }
+
+  const { templates, ...values } = result.data;
+  const settings = new Map<string, string>();
+  for (const [key, value] of Object.entries(values)) {
+    if (value !== undefined) {
+      settings.set(key, String(value));
+    }
+  }
+
+  return {
+    path,
+    settings,
+    templates: {
+      ...(templates?.header && { header: templates.header }),
+      ...(templates?.footer && { footer: templates.footer }),
+    },
+  };
+}
+
+/**
+ * Loads the configuration file from the repository.
+ *
+ * The file is read from the base ref on purpose: a PR must not be able to
+ * loosen the settings it is validated with.
+ *
+ * @returns The parsed configuration, or undefined when the file does not exist
+ * @throws Error when the file exists but is invalid
+ */
+export async function loadRepoConfig(
+  githubClient: GitHubClient,
+  owner: string,
+  repo: string,
+  ref: string | undefined,
+  path: string = DEFAULT_CONFIG_PATH
+): Promise<RepoConfig | undefined> {
+  const text = await githubClient.getFileContent(owner, repo, path, ref);
+  // A missing file and an empty one both mean "no repository configuration"
+  if (!text) {
+    return undefined;
+  }
+  return parseRepoConfig(text, path);
+}
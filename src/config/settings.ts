@@ -0,0 +1,220 @@
+/**
+ * Action Settings
+ *
+ * Turns input-style settings into validator dependencies. Both entry points
+ * use these helpers: the action reads settings from its inputs and the
+ * repository configuration file, the CLI from flags, environment variables
+ * and the same file, so both apply identical defaults and validation.
+ */
+
+import { DEFAULT_GEMINI_MODEL } from '../ai/gemini-client';
+import { FallbackProvider } from '../ai/fallback-provider';
+import {
+  AI_PROVIDER_NAMES,
+  ANALYSIS_SCOPES,
+  type AIProvider,
+  type AIProviderName,
+  type AnalysisScope,
+} from '../ai/provider';
+import {
+  createAIProvider,
+  isAIProviderName,
+  parseProviderChain,
+} from '../ai/provider-factory';
+import { DEFAULT_PROMPT_TOKEN_BUDGET } from '../ai/prompt-budget';
+import {
+  DEFAULT_GUIDELINES_FILE,
+  DEFAULT_MAX_PR_SIZE,
+  DEFAULT_TIMEOUT_SECONDS,
+  type ValidationConfig,
+} from '../core/validator';
+import {
+  parseCommitRuleList,
+  type CommitRulesOptions,
+} from '../rules/commit-rules';
+
+/**
+ * Reads a setting by input name. Built-in defaults are applied by callers, so
+ * an empty string means "not configured".
+ */
+export type SettingReader = (name: string) => string;
+
+/**
+ * Reads a numeric input, falling back to the default when it is empty.
+ *
+ * @throws Error naming the input when the value is not a positive integer
+ */
+export function readPositiveIntInput(
+  read: SettingReader,
+  name: string,
+  defaultValue: number
+): number {
+  const input = read(name) || String(defaultValue);
+  const value = Number(input);
+  if (!Number.isInteger(value) || value <= 0) {
+    throw new Error(
+      `Invalid ${name} input "${input}": must be a positive integer`
+    );
+  }
+  return value;
+}
+
+/**
+ * Builds the selected AI provider from its provider-specific key and model inputs.
+ * A model given in the fallback chain overrides the provider's model input.
+ */
+function createProviderFromInputs(
+  read: SettingReader,
+  providerName: AIProviderName,
+  modelOverride?: string
+): AIProvider {
+  switch (providerName) {
+    case 'gemini':
+      return createAIProvider({
+        provider: 'gemini',
+        apiKey: read('gemini-api-key'),
+        model: modelOverride ?? (read('gemini-model') || DEFAULT_GEMINI_MODEL),
+      });
+    case 'openai': {
+      const model = modelOverride ?? read('openai-model');
+      const baseUrl = read('openai-base-url');
+      return createAIProvider({
+        provider: 'openai',
+        apiKey: read('openai-api-key'),
+        ...(model && { model }),
+        ...(baseUrl && { baseUrl }),
+      });
+    }
+    case 'anthropic': {
+      const model = modelOverride ?? read('anthropic-model');
+      return createAIProvider({
+        provider: 'anthropic',
+        apiKey: read('anthropic-api-key'),
+        ...(model && { model }),
+      });
+    }
+  }
+}
+
+/**
+ * Builds the primary provider followed by its `ai-fallback` chain. Fallback
+ * providers are only consulted when the previous one fails with a quota,
+ * timeout or invalid-response error.
+ */
+function createProviderChainFromInputs(
+  read: SettingReader,
+  providerName: AIProviderName
+): AIProvider {
+  const primaryProvider = createProviderFromInputs(read, providerName);
+  const fallbackChain = parseProviderChain(read('ai-fallback'));
+  return fallbackChain.length > 0
+    ? new FallbackProvider([
+        primaryProvider,
+        ...fallbackChain.map(entry =>
+          createProviderFromInputs(read, entry.provider, entry.model)
+        ),
+      ])
+    : primaryProvider;
+}
+
+/**
+ * Reads the commit rule engine inputs.
+ *
+ * @returns Rule options, or undefined when `commit-rules` is `none`
+ * @throws Error for unknown rules or an invalid scope pattern
+ */
+export function readCommitRulesInputs(
+  read: SettingReader
+): Partial<CommitRulesOptions> | undefined {
+  const rules = parseCommitRuleList(read('commit-rules'));
+  if (rules.length === 0) {
+    return undefined;
+  }
+  const types = read('commit-types')
+    .split(',')
+    .map(type => type.trim())
+    .filter(type => type !== '');
+  const scopeInput = read('commit-scope-pattern').trim();
+  let scopePattern: RegExp | undefined;
+  if (scopeInput) {
+    try {
+      // Anchored so the pattern must match the whole scope
+      // eslint-disable-next-line security/detect-non-literal-regexp -- pattern comes from the workflow author
+      scopePattern = new RegExp(`^(?:${scopeInput})$`);
+    } catch (error) {
+      throw new Error(
+        `Invalid commit-scope-pattern input "${scopeInput}": ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+  return {
+    rules,
+    ...(types.length > 0 && { types }),
+    ...(scopePattern && { scopePattern }),
+  };
+}
+
+/**
+ * Builds the provider chain selected by `ai-provider`.
+ *
+ * @returns The provider, or undefined when `ai-provider` is `none`, which
+ * leaves only the local commit rules
+ * @throws Error for an unknown provider or a missing API key
+ */
+export function createAIProviderFromSettings(
+  read: SettingReader
+): AIProvider | undefined {
+  const providerName = read('ai-provider') || 'gemini';
+  if (providerName === 'none') {
+    return undefined;
+  }
+  if (!isAIProviderName(providerName)) {
+    throw new Error(
+      `Invalid ai-provider input "${providerName}": must be one of ${AI_PROVIDER_NAMES.join(', ')}, none`
+    );
+  }
+  return createProviderChainFromInputs(read, providerName);
+}
+
+/**
+ * Reads the `analysis-scope` input, defaulting to text only.
+ *
+ * @throws Error for an unknown scope
+ */
+export function readAnalysisScope(read: SettingReader): AnalysisScope {
+  const input = read('analysis-scope') || 'text';
+  const scope = ANALYSIS_SCOPES.find(candidate => candidate === input);
+  if (!scope) {
+    throw new Error(
+      `Invalid analysis-scope input "${input}": must be one of ${ANALYSIS_SCOPES.join(', ')}`
+    );
+  }
+  return scope;
+}
+
+/**
+ * Reads the validator settings shared by the action and the CLI. Settings
+ * that only one entry point has, such as the GitHub token or dry-run mode,
+ * are added by the caller.
+ *
+ * @throws Error naming the first invalid setting
+ */
+export function readValidationConfig(read: SettingReader): ValidationConfig {
+  const commitRules = readCommitRulesInputs(read);
+  return {
+    guidelinesFile: read('guidelines-file') || DEFAULT_GUIDELINES_FILE,
+    maxPrSize: readPositiveIntInput(read, 'max-pr-size', DEFAULT_MAX_PR_SIZE),
+    timeoutSeconds: readPositiveIntInput(
+      read,
+      'timeout-seconds',
+      DEFAULT_TIMEOUT_SECONDS
+    ),
+    ...(commitRules && { commitRules }),
+    analysisScope: readAnalysisScope(read),
+    maxPromptTokens: readPositiveIntInput(
+      read,
+      'max-prompt-tokens',
+      DEFAULT_PROMPT_TOKEN_BUDGET
+    ),
+  };
+}
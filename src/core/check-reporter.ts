@@ -0,0 +1,145 @@
+/**
+ * Check Run Reporter
+ *
+ * Delivers validation results as a GitHub Check Run instead of (or in addition
+ * to) a PR comment. Teams that prefer a quiet PR timeline still get the full
+ * markdown report in the check's summary and each issue as an annotation.
+ */
+
+import type {
+  CheckRunAnnotation,
+  CheckRunConclusion,
+  CheckRunData,
+  GitHubClient,
+} from '../github/client';
+import type { IssueSeverity } from '../ai/provider';
+import { SHORT_SHA_LENGTH } from '../ai/prompt';
+import { ISSUE_CATEGORY_LABELS, commitRuleFindings } from './formatter';
+import type { ValidationReport } from './validator';
+
+// The Checks API rejects summaries above 65535 characters
+const MAX_SUMMARY_LENGTH = 65535;
+const MAX_ANNOTATIONS = 50;
+
+const ANNOTATION_LEVELS: Record<
+  IssueSeverity,
+  CheckRunAnnotation['annotation_level']
+> = {
+  error: 'failure',
+  warning: 'warning',
+  suggestion: 'notice',
+};
+
+/**
+ * Options controlling how results are presented in the check run.
+ */
+export interface CheckRunReporterOptions {
+  name: string;
+  /**
+   * Repository file the annotations are attached to. Issues concern PR text
+   * rather than code lines, so they are anchored to the guidelines file.
+   */
+  annotationPath: string;
+}
+
+/**
+ * Publishes a validation report as a completed check run.
+ */
+export class CheckRunReporter {
+  private readonly _githubClient: GitHubClient;
+  private readonly _options: CheckRunReporterOptions;
+
+  constructor(githubClient: GitHubClient, options: CheckRunReporterOptions) {
+    this._githubClient = githubClient;
+    this._options = options;
+  }
+
+  /**
+   * Creates the check run for the PR head commit.
+   *
+   * @param summary - Markdown produced by ResultFormatter
+   */
+  async report(
+    owner: string,
+    repo: string,
+    headSha: string,
+    report: ValidationReport,
+    summary: string
+  ): Promise<CheckRunData> {
+    return this._githubClient.createCheckRun(owner, repo, {
+      name: this._options.name,
+      headSha,
+      conclusion: this.conclusionFor(report),
+      title: this.titleFor(report),
+      summary:
+        summary.length > MAX_SUMMARY_LENGTH
+          ? `${summary.substring(0, MAX_SUMMARY_LENGTH - 3)}...`
+          : summary,
+      annotations: this.annotationsFor(report),
+    });
+  }
+
+  private conclusionFor(report: ValidationReport): CheckRunConclusion {
+    if (report.status === 'ERROR') {
+      // No verdict was reached; neutral avoids blocking the PR on an outage
+      return 'neutral';
+    }
+    if (report.status === 'FAIL') {
+      return 'failure';
+    }
+    if (report.status === 'WARNINGS') {
+      // Neutral keeps the check green-ish in branch protection while still
+      // standing out from a clean pass in the checks list
+      return 'neutral';
+    }
+    return report.skipped ? 'skipped' : 'success';
+  }
+
+  private titleFor(report: ValidationReport): string {
+    const countOf = (severity: IssueSeverity): number =>
+      report.issues.filter(issue => issue.severity === severity).length;
+    if (report.reason === 'pr-too-large') {
+      return 'PR too large for AI validation';
+    }
+    if (report.reason === 'timeout') {
+      return 'Could not validate: timed out';
+    }
+    if (report.status === 'ERROR') {
+      return 'Could not validate: AI service unavailable';
+    }
+    if (report.status === 'FAIL') {
+      return `Needs improvement: ${countOf('error')} blocking issue(s) found`;
+    }
+    if (report.status === 'WARNINGS') {
+      return `Passed with ${countOf('warning')} warning(s)`;
+    }
+    return report.skipped
+      ? 'Validation skipped'
+      : 'Meets contribution guidelines';
+  }
+
+  private annotationsFor(report: ValidationReport): CheckRunAnnotation[] {
+    // Skip notes ("Validation skipped for automated PR...") are not findings
+    // about the contribution
+    if (report.skipped && report.status === 'PASS') {
+      return [];
+    }
+    // Neither are outage notices, but commit rule findings still are
+    const issues =
+      report.status === 'ERROR' ? commitRuleFindings(report) : report.issues;
+
+    // Each annotation keeps its own severity, so a nit on a failing PR is
+    // not shown as a failure
+    return issues.slice(0, MAX_ANNOTATIONS).map(issue => ({
+      path: this._options.annotationPath,
+      start_line: 1,
+      end_line: 1,
+      annotation_level: ANNOTATION_LEVELS[issue.severity],
+      title: `Contribution guidelines: ${ISSUE_CATEGORY_LABELS[issue.category]}`,
+      message:
+        issue.category === 'commits' && issue.target
+          ? `Commit ${issue.target.substring(0, SHORT_SHA_LENGTH)}: ${issue.message}`
+          : issue.message,
+    }));
+  }
+}
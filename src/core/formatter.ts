@@ -10,14 +10,71 @@
  * more helpful than simple pass/fail messaging.
  */
 
+import {
+  ISSUE_CATEGORIES,
+  ISSUE_SEVERITIES,
+  type AIProviderName,
+  type CommitVerdict,
+  type IssueCategory,
+  type IssueSeverity,
+  type ValidationIssue,
+} from '../ai/provider';
+import { SHORT_SHA_LENGTH } from '../ai/prompt';
+import type { PromptSection, PromptTruncation } from '../ai/prompt-budget';
+import type { ValidationReason } from './validator';
+
 export interface ValidationResult {
-  status: 'PASS' | 'FAIL' | 'WARNINGS';
-  issues: string[];
+  status: 'PASS' | 'FAIL' | 'WARNINGS' | 'ERROR';
+  issues: ValidationIssue[];
   improved_title: string;
   improved_commits: string;
   improved_description: string;
+  model?: string;
+  provider?: AIProviderName;
+  fallbackFrom?: string[];
+  reason?: ValidationReason;
+  commits?: CommitVerdict[];
+  truncated?: PromptTruncation[];
+  cached?: boolean;
 }
 
+/**
+ * Markdown overrides for the fixed parts of the PR comment.
+ */
+export interface CommentTemplates {
+  header?: string; // Replaces the "AI Validation Results" heading
+  footer?: string; // Replaces the "Automated validation based on..." line
+}
+
+const DEFAULT_HEADER = '## 🤖 AI Validation Results';
+const DEFAULT_FOOTER =
+  '*Automated validation based on [contribution guidelines](CONTRIBUTING.md)*';
+
+const SEVERITY_HEADINGS: Record<IssueSeverity, string> = {
+  error: '#### ❌ Errors',
+  warning: '#### ⚠️ Warnings',
+  suggestion: '#### 💡 Suggestions',
+};
+
+export const ISSUE_CATEGORY_LABELS: Record<IssueCategory, string> = {
+  title: 'Title',
+  commits: 'Commits',
+  description: 'Description',
+  metadata: 'General',
+};
+
+const PROMPT_SECTION_LABELS: Record<PromptSection, string> = {
+  description: 'description',
+  commits: 'commit messages',
+  guidelines: 'guidelines',
+};
+
+const COMMIT_STATUS_LABELS: Record<CommitVerdict['status'], string> = {
+  PASS: '✅ Pass',
+  WARNINGS: '⚠️ Warnings',
+  FAIL: '❌ Fail',
+};
+
 /**
  * Formats structured validation results into rich markdown for GitHub PR comments.
  * Uses emojis and clear sections to make feedback actionable and user-friendly.
@@ -34,8 +91,31 @@ export interface ValidationResult {
  * headers and explanatory text ensure clear communication of expectations.
  */
 export class ResultFormatter {
-  formatToMarkdown(validationResult: ValidationResult): string {
-    let markdown = '## 🤖 AI Validation Results\n\n';
+  private readonly _templates: CommentTemplates;
+
+  /**
+   * @param templates - Repository-specific header and footer markdown
+   */
+  constructor(templates: CommentTemplates = {}) {
+    this._templates = templates;
+  }
+
+  /**
+   * @param previousResult - Result of the run that wrote the comment being
+   * replaced; when given, issues resolved and introduced since are listed
+   */
+  formatToMarkdown(
+    validationResult: ValidationResult,
+    previousResult?: ValidationResult
+  ): string {
+    let markdown = `${this._templates.header ?? DEFAULT_HEADER}\n\n`;
+
+    if (validationResult.reason === 'pr-too-large') {
+      return markdown + this.formatPrTooLarge(validationResult);
+    }
+    if (validationResult.status === 'ERROR') {
+      return markdown + this.formatCouldNotValidate(validationResult);
+    }
 
     if (validationResult.status === 'PASS') {
       markdown += '### Status: ✅ Passed\n';
@@ -56,12 +136,18 @@ export class ResultFormatter {
       markdown += '_No issues detected_\n\n';
     } else {
       markdown += '\n';
-      validationResult.issues.forEach(issue => {
-        const truncatedIssue =
-          issue.length > 1000 ? `${issue.substring(0, 1000)}...` : issue;
-        markdown += `- ${truncatedIssue}\n`;
-      });
-      markdown += '\n';
+      markdown += this.formatIssueGroups(validationResult.issues);
+    }
+
+    if (previousResult && hasVerdict(previousResult)) {
+      markdown += this.formatIssueChanges(
+        previousResult.issues,
+        validationResult.issues
+      );
+    }
+
+    if (validationResult.commits?.length) {
+      markdown += this.formatCommitTable(validationResult.commits);
     }
 
     // Add improvements section if any improvements exist
@@ -91,32 +177,278 @@ export class ResultFormatter {
       if (validationResult.improved_title.trim() !== '') {
         markdown += '#### 📝 Suggested PR Title:\n';
         markdown += '```\n';
-        markdown += `${validationResult.improved_title}\n`;
+        markdown += `${escapeHtmlComments(validationResult.improved_title)}\n`;
         markdown += '```\n\n';
       }
 
       if (validationResult.improved_commits.trim() !== '') {
         markdown += '#### 📋 Suggested Commit Message:\n';
         markdown += '```\n';
-        markdown += `${validationResult.improved_commits}\n`;
+        markdown += `${escapeHtmlComments(validationResult.improved_commits)}\n`;
         markdown += '```\n\n';
       }
 
       if (validationResult.improved_description.trim() !== '') {
         markdown += '#### 📄 Suggested PR Description:\n';
         markdown += '```\n';
-        markdown += `${validationResult.improved_description}\n`;
+        markdown += `${escapeHtmlComments(validationResult.improved_description)}\n`;
         markdown += '```\n\n';
       }
     }
 
-    // Add footer
-    const timestamp = `${new Date().toISOString().replace('T', ' ').split('.')[0]} UTC`;
-    markdown += '---\n';
+    if (validationResult.truncated?.length) {
+      markdown += this.formatTruncationNote(validationResult.truncated);
+    }
+
+    markdown += this.formatFooter(validationResult);
+
+    return markdown;
+  }
+
+  /**
+   * Groups issues by severity so blocking problems are never buried among
+   * nits; within a group, issues are ordered by the part of the PR they
+   * concern.
+   */
+  private formatIssueGroups(issues: readonly ValidationIssue[]): string {
+    let markdown = '';
+    ISSUE_SEVERITIES.forEach(severity => {
+      const group = issues
+        .filter(issue => issue.severity === severity)
+        .sort(
+          (a, b) =>
+            ISSUE_CATEGORIES.indexOf(a.category) -
+            ISSUE_CATEGORIES.indexOf(b.category)
+        );
+      if (group.length === 0) {
+        return;
+      }
+      // eslint-disable-next-line security/detect-object-injection -- severity is a closed union
+      markdown += `${SEVERITY_HEADINGS[severity]}\n\n`;
+      group.forEach(issue => {
+        markdown += formatIssueLine(issue);
+      });
+      markdown += '\n';
+    });
+
+    return markdown;
+  }
+
+  /**
+   * Lists issues fixed and introduced since the previous run, so contributors
+   * get credit for their fixes and reviewers can follow progress across
+   * force-pushes. Nothing is shown when the issues are unchanged.
+   */
+  private formatIssueChanges(
+    previousIssues: readonly ValidationIssue[],
+    issues: readonly ValidationIssue[]
+  ): string {
+    const previousKeys = new Set(previousIssues.map(issueKey));
+    const keys = new Set(issues.map(issueKey));
+    const resolved = previousIssues.filter(issue => !keys.has(issueKey(issue)));
+    const added = issues.filter(issue => !previousKeys.has(issueKey(issue)));
+    if (resolved.length === 0 && added.length === 0) {
+      return '';
+    }
+
+    let markdown = '### 🔄 Since Last Run:\n\n';
+    if (resolved.length > 0) {
+      markdown += '#### ✅ Resolved since last run\n\n';
+      resolved.forEach(issue => {
+        markdown += formatIssueLine(issue);
+      });
+      markdown += '\n';
+    }
+    if (added.length > 0) {
+      markdown += '#### 🆕 New issues\n\n';
+      added.forEach(issue => {
+        markdown += formatIssueLine(issue);
+      });
+      markdown += '\n';
+    }
+
+    return markdown;
+  }
+
+  /**
+   * One row per commit so contributors can tell which commits to reword
+   * without matching a combined suggestion against their history.
+   */
+  private formatCommitTable(commits: readonly CommitVerdict[]): string {
+    // Table cells must stay on one line and must not close the cell early
+    const cell = (text: string): string =>
+      escapeHtmlComments(text.trim())
+        .replace(/\|/g, '\\|')
+        .replace(/\r?\n/g, '<br>') || '—';
+
+    let markdown = '### 🔍 Commit Review:\n\n';
+    markdown += '| Commit | Status | Issues | Suggested Message |\n';
+    markdown += '| --- | --- | --- | --- |\n';
+    commits.forEach(commit => {
+      markdown += `| \`${commit.sha.substring(0, SHORT_SHA_LENGTH)}\` | ${COMMIT_STATUS_LABELS[commit.status]} | ${cell(commit.issues.join('\n'))} | ${cell(commit.suggested_message)} |\n`;
+    });
+    markdown += '\n';
+
+    return markdown;
+  }
+
+  /**
+   * Tells readers the AI saw only part of the text, since problems in the
+   * omitted part cannot show up in the review.
+   */
+  private formatTruncationNote(
+    truncations: readonly PromptTruncation[]
+  ): string {
+    const sections = truncations
+      .map(
+        t =>
+          `${PROMPT_SECTION_LABELS[t.section]} (${t.keptTokens.toLocaleString('en-US')} of ${t.originalTokens.toLocaleString('en-US')} tokens)`
+      )
+      .join(', ');
+    return `> ℹ️ To stay within the prompt budget, the AI only saw part of the ${sections}. Issues in the omitted text may not be reported.\n\n`;
+  }
+
+  /**
+   * Oversized PRs never reach the AI, so there are no issues or suggestions to
+   * show; the comment instead explains the limit and how to get unblocked.
+   */
+  private formatPrTooLarge(validationResult: ValidationResult): string {
+    let markdown = '### Status: 📏 PR Too Large\n';
     markdown +=
-      '*Automated validation based on [contribution guidelines](CONTRIBUTING.md)*\n';
+      'This PR exceeds the configured size limit, so AI validation was skipped.\n\n';
+
+    validationResult.issues.forEach(issue => {
+      markdown += `- ${escapeHtmlComments(issue.message)}\n`;
+    });
+    markdown += '\n';
+
+    markdown +=
+      'Please split it into smaller, focused PRs. If the size is intentional (e.g. vendored or generated code), ask a maintainer to raise `max-pr-size`.\n\n';
+    markdown += this.formatFooter(validationResult);
+
+    return markdown;
+  }
+
+  /**
+   * An ERROR report carries no AI verdict on the PR, so suggestions would be
+   * misleading; the comment explains what went wrong and lists only the
+   * commit rule findings, which were checked without the AI.
+   */
+  private formatCouldNotValidate(validationResult: ValidationResult): string {
+    const timedOut = validationResult.reason === 'timeout';
+    const findings = commitRuleFindings(validationResult);
+    let markdown = '### Status: 🚫 Could Not Validate\n';
+    markdown += timedOut
+      ? 'Validation did not finish within the configured time limit, so this PR was not checked against the guidelines. This is not a problem with your contribution.\n\n'
+      : 'The AI service could not be reached or returned an unusable answer, so this PR was not checked against the guidelines. This is not a problem with your contribution.\n\n';
+
+    validationResult.issues
+      .filter(issue => !findings.includes(issue))
+      .forEach(issue => {
+        markdown += `- ${escapeHtmlComments(issue.message)}\n`;
+      });
+    markdown += '\n';
+
+    if (findings.length > 0) {
+      markdown += '### 📋 Commit Rule Findings:\n';
+      markdown +=
+        'The local Conventional Commits checks do not depend on the AI and still apply.\n\n';
+      markdown += this.formatIssueGroups(findings);
+    }
+    if (validationResult.commits?.length) {
+      markdown += this.formatCommitTable(validationResult.commits);
+    }
+
+    markdown += timedOut
+      ? 'Re-run the workflow to retry, or raise the `timeout-seconds` input if this keeps happening.\n\n'
+      : 'Re-run the workflow later to retry the validation, or ask a maintainer to review the PR manually.\n\n';
+    markdown += this.formatFooter(validationResult);
+
+    return markdown;
+  }
+
+  private formatFooter(validationResult: ValidationResult): string {
+    const timestamp = `${new Date().toISOString().replace('T', ' ').split('.')[0]} UTC`;
+    let markdown = '---\n';
+    markdown += `${this._templates.footer ?? DEFAULT_FOOTER}\n`;
+    if (validationResult.model) {
+      const via = validationResult.provider
+        ? ` via ${validationResult.provider}`
+        : '';
+      const fallback = validationResult.fallbackFrom?.length
+        ? ` (fallback after ${validationResult.fallbackFrom.map(p => `\`${p}\``).join(', ')} failed)`
+        : '';
+      markdown += `_Validated by \`${validationResult.model}\`${via}${fallback}_\n`;
+    }
+    if (validationResult.cached) {
+      markdown +=
+        '_Result reused from the previous run: the title, description, commits and guidelines are unchanged_\n';
+    }
     markdown += `_Last updated: ${timestamp}_\n`;
 
     return markdown;
   }
 }
+
+/**
+ * Issues of an ERROR report that are commit rule findings rather than the
+ * outage notice. The rule engine only reports commit issues, while the
+ * notices are general ones, so the category tells them apart.
+ */
+export function commitRuleFindings(
+  result: Pick<ValidationResult, 'status' | 'issues'>
+): ValidationIssue[] {
+  return result.status === 'ERROR'
+    ? result.issues.filter(issue => issue.category === 'commits')
+    : [];
+}
+
+/**
+ * Whether a result judged the PR, as opposed to an outage or a PR too large
+ * to review; only such results can be compared.
+ */
+function hasVerdict(result: ValidationResult): boolean {
+  return result.status !== 'ERROR' && result.reason !== 'pr-too-large';
+}
+
+/**
+ * Identifies an issue across runs. Commit SHAs change on every force-push,
+ * so commit issues are matched by message alone; messages are compared
+ * ignoring case and spacing.
+ */
+function issueKey(issue: ValidationIssue): string {
+  const target = issue.category === 'commits' ? '' : (issue.target ?? '');
+  const message = issue.message.trim().replace(/\s+/g, ' ').toLowerCase();
+  return JSON.stringify([issue.category, target, message]);
+}
+
+function formatIssueLine(issue: ValidationIssue): string {
+  const message =
+    issue.message.length > 1000
+      ? `${issue.message.substring(0, 1000)}...`
+      : issue.message;
+  return `- **${ISSUE_CATEGORY_LABELS[issue.category]}**${formatIssueTarget(issue)}: ${escapeHtmlComments(message)}\n`;
+}
+
+/**
+ * Keeps AI-generated text from opening HTML comments, which could hide parts
+ * of the comment or pose as the run metadata block.
+ */
+function escapeHtmlComments(text: string): string {
+  return text.replace(/<!--/g, '&lt;!--');
+}
+
+/**
+ * Commit targets are shortened to the abbreviated SHA shown elsewhere in the
+ * comment; other targets are shown as given.
+ */
+function formatIssueTarget(issue: ValidationIssue): string {
+  if (!issue.target) {
+    return '';
+  }
+  const target =
+    issue.category === 'commits'
+      ? issue.target.substring(0, SHORT_SHA_LENGTH)
+      : issue.target;
+  return ` (\`${target}\`)`;
+}
@@ -0,0 +1,61 @@
+/**
+ * Quality Scores
+ *
+ * Condenses a report's issues into a 0-100 score per category, so dashboards
+ * can track contribution quality over time without interpreting issue text.
+ */
+
+import {
+  ISSUE_CATEGORIES,
+  type IssueCategory,
+  type IssueSeverity,
+  type ValidationIssue,
+} from '../ai/provider';
+
+/**
+ * Score per issue category plus the rounded mean of all categories.
+ */
+export type QualityScores = Record<IssueCategory, number> & {
+  overall: number;
+};
+
+// A single error costs more than several nits; three errors in one category
+// are enough to bottom it out
+const SEVERITY_PENALTIES: Record<IssueSeverity, number> = {
+  error: 40,
+  warning: 15,
+  suggestion: 5,
+};
+
+const MAX_SCORE = 100;
+
+/**
+ * Scores each category by subtracting a severity-based penalty per issue
+ * from 100, never going below 0. Categories without issues score 100.
+ */
+export function computeQualityScores(
+  issues: readonly ValidationIssue[]
+): QualityScores {
+  const scores = Object.fromEntries(
+    ISSUE_CATEGORIES.map(category => {
+      const penalty = issues
+        .filter(issue => issue.category === category)
+        .reduce(
+          (total, issue) => total + SEVERITY_PENALTIES[issue.severity],
+          0
+        );
+      return [category, Math.max(0, MAX_SCORE - penalty)];
+    })
+  ) as Record<IssueCategory, number>;
+
+  const sum = ISSUE_CATEGORIES.reduce(
+    // eslint-disable-next-line security/detect-object-injection -- category is a closed union
+    (total, category) => total + scores[category],
+    0
+  );
+
+  return {
+    ...scores,
+    overall: Math.round(sum / ISSUE_CATEGORIES.length),
+  };
+}
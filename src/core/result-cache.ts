@@ -0,0 +1,57 @@
+/**
+ * Result Cache
+ *
+ * Lets a run reuse the previous verdict when nothing the AI would be asked
+ * has changed, e.g. after a label change or a rebase that kept the commit
+ * messages. The previous report travels in the bot comment's metadata, so no
+ * storage beyond the PR itself is needed.
+ */
+
+import { createHash } from 'crypto';
+import type { ValidationReport } from './validator';
+
+/**
+ * Identifies the inputs a verdict was reached for.
+ */
+export interface ResultCacheKey {
+  fingerprint: string; // SHA-256 over the prompt inputs, see computeFingerprint
+  commitShas: string[]; // PR commits in order, to re-key verdicts after a rebase
+}
+
+/**
+ * Hashes the parts that decide a verdict. Parts are hashed as a JSON array
+ * so that moving text from one part to the next changes the fingerprint.
+ */
+export function computeFingerprint(parts: readonly string[]): string {
+  return createHash('sha256').update(JSON.stringify(parts)).digest('hex');
+}
+
+/**
+ * Re-keys a report's commit verdicts and commit issue targets from one list
+ * of SHAs to another by position. Commits outside the old list keep their SHA.
+ */
+export function remapCommitShas(
+  report: ValidationReport,
+  from: readonly string[],
+  to: readonly string[]
+): ValidationReport {
+  const remap = (sha: string): string => {
+    const index = from.indexOf(sha);
+    // eslint-disable-next-line security/detect-object-injection -- index comes from indexOf
+    return (index === -1 ? undefined : to[index]) ?? sha;
+  };
+  return {
+    ...report,
+    issues: report.issues.map(issue =>
+      issue.category === 'commits' && issue.target
+        ? { ...issue, target: remap(issue.target) }
+        : issue
+    ),
+    ...(report.commits && {
+      commits: report.commits.map(verdict => ({
+        ...verdict,
+        sha: remap(verdict.sha),
+      })),
+    }),
+  };
+}
@@ -5,17 +5,149 @@
  * pull requests against contribution guidelines.
  */
 
-import type { GitHubClient } from '../github/client';
-import type { GeminiClient } from '../ai/gemini-client';
+import type { GitHubClient, PRData } from '../github/client';
+import type {
+  AIProvider,
+  AIProviderName,
+  AnalysisScope,
+  CommitVerdict,
+  PromptOptions,
+  TokenUsage,
+  ValidationIssue,
+} from '../ai/provider';
+import {
+  buildStructuredPrompt,
+  buildValidationPrompt,
+  resolveCommitVerdicts,
+  resolveIssueTargets,
+  statusFromIssues,
+} from '../ai/prompt';
+import { estimateTokens } from '../ai/tokens';
+import { fitPromptInputs, type PromptTruncation } from '../ai/prompt-budget';
+import { GuidelinesLoader, type GuidelinesContext } from '../guidelines/loader';
+import { computeQualityScores, type QualityScores } from './quality-score';
+import {
+  computeFingerprint,
+  remapCommitShas,
+  type ResultCacheKey,
+} from './result-cache';
+import {
+  CommitRuleEngine,
+  type CommitRulesOptions,
+} from '../rules/commit-rules';
 
 /**
  * Configuration for the validator
  */
 export interface ValidationConfig {
-  githubToken: string;
-  geminiApiKey: string;
-  guidelinesFile: string;
+  githubToken?: string; // Required when a GitHub client is injected
+  guidelinesFile: string; // Repository path or HTTP(S) URL of the guidelines
   skipAuthors?: string;
+  maxPrSize?: number; // Upper bound on changed lines before AI validation is skipped
+  timeoutSeconds?: number; // Overall budget for one validation run
+  commitRules?: Partial<CommitRulesOptions>; // Local commit checks; disabled when unset
+  dryRun?: boolean; // Build the AI prompt but do not send it
+  analysisScope?: AnalysisScope; // What the AI sees; text only when unset
+  maxPromptTokens?: number; // Budget for PR text and guidelines in the prompt
+}
+
+export const DEFAULT_GUIDELINES_FILE = 'CONTRIBUTING.md';
+
+// Changed lines above which a PR is too large to review meaningfully
+export const DEFAULT_MAX_PR_SIZE = 5000;
+
+// Pro models regularly need more than 30s for long PRs
+export const DEFAULT_TIMEOUT_SECONDS = 120;
+
+// Share of the overall budget GitHub fetching (PR data, guidelines) may use;
+// the AI call gets whatever is left, so a fast fetch leaves more for the model
+const GITHUB_BUDGET_SHARE = 1 / 3;
+
+/**
+ * Phase of a validation run, used to explain where a timeout happened.
+ */
+type ValidationPhase = 'github' | 'ai';
+
+const PHASE_DESCRIPTIONS: Record<ValidationPhase, string> = {
+  github: 'fetching PR data from GitHub',
+  ai: 'waiting for the AI response',
+};
+
+type BudgetResult<T> = { timedOut: false; value: T } | { timedOut: true };
+
+/**
+ * Deadlines of one validation run, fixed when the run starts.
+ */
+interface RunBudget {
+  timeoutSeconds: number;
+  githubDeadline: number; // Epoch ms by which GitHub fetching must finish
+  deadline: number; // Epoch ms by which the whole run must finish
+}
+
+/**
+ * Runs work under a time budget, aborting its signal when the budget expires.
+ *
+ * The timer is always cleared so a finished run does not keep the Node
+ * process alive until the budget would have expired.
+ */
+async function runWithinBudget<T>(
+  budgetMs: number,
+  work: (signal: AbortSignal) => Promise<T>
+): Promise<BudgetResult<T>> {
+  const controller = new global.AbortController();
+  let timer: ReturnType<typeof global.setTimeout> | undefined;
+  const expired = new Promise<BudgetResult<T>>(resolve => {
+    timer = global.setTimeout(
+      () => {
+        resolve({ timedOut: true });
+        controller.abort();
+      },
+      Math.max(0, budgetMs)
+    );
+  });
+
+  try {
+    return await Promise.race([
+      work(controller.signal).then(value => ({
+        timedOut: false as const,
+        value,
+      })),
+      expired,
+    ]);
+  } finally {
+    global.clearTimeout(timer);
+  }
+}
+
+const STATUS_SEVERITY = ['PASS', 'WARNINGS', 'FAIL'] as const;
+
+function stricterStatus(
+  a: (typeof STATUS_SEVERITY)[number],
+  b: (typeof STATUS_SEVERITY)[number]
+): (typeof STATUS_SEVERITY)[number] {
+  return STATUS_SEVERITY.indexOf(a) >= STATUS_SEVERITY.indexOf(b) ? a : b;
+}
+
+/**
+ * Prompt for the AI together with what had to be cut to build it.
+ */
+interface BuiltPrompt {
+  prompt: string;
+  truncated?: PromptTruncation[];
+}
+
+/**
+ * Machine-readable reason attached to reports that did not come from a
+ * regular AI verdict, so formatters and workflows can react specifically.
+ */
+export type ValidationReason = 'pr-too-large' | 'timeout' | 'dry-run';
+
+/**
+ * The prompt a dry run would have sent, exactly as the provider receives it.
+ */
+export interface DryRunPrompt {
+  prompt: string;
+  estimatedTokens: number;
 }
 
 /**
@@ -27,12 +159,23 @@ export interface ValidationConfig {
  * validation paths, including fallback scenarios.
  */
 export interface ValidationReport {
-  status: 'PASS' | 'FAIL' | 'WARNINGS';
-  issues: string[];
+  status: 'PASS' | 'FAIL' | 'WARNINGS' | 'ERROR'; // ERROR: the AI could not be reached
+  issues: ValidationIssue[];
   improved_title: string;
   improved_commits: string;
   improved_description: string;
+  commits?: CommitVerdict[]; // Per-commit verdicts keyed by full SHA
+  scores?: QualityScores; // Only set when a verdict was reached
+  model?: string; // AI model that produced the verdict, shown in the comment footer
+  provider?: AIProviderName;
+  fallbackFrom?: string[]; // Providers that failed before the answering one
+  tokenUsage?: TokenUsage; // Reported by the provider that answered
+  truncated?: PromptTruncation[]; // Prompt sections shortened to fit the budget
+  cacheKey?: ResultCacheKey; // Set on AI verdicts, which later runs may reuse
+  cached?: boolean; // Reused from the previous run without calling the AI
   skipped?: boolean;
+  reason?: ValidationReason;
+  dryRun?: DryRunPrompt; // Only set for reason 'dry-run'
 }
 
 /**
@@ -42,18 +185,24 @@ export interface ValidationReport {
 export class Validator {
   private readonly _config: ValidationConfig;
   private readonly _githubClient: GitHubClient | undefined;
-  private readonly _geminiClient: GeminiClient | undefined;
+  private readonly _aiProvider: AIProvider | undefined;
+  private readonly _guidelinesLoader: GuidelinesLoader;
+  private readonly _ruleEngine: CommitRuleEngine | undefined;
 
   /**
    * Creates validator with configuration and optional dependency injection.
    * Optional clients enable graceful degradation when services are unavailable.
+   * The guidelines loader defaults to one backed by the GitHub client.
    */
   constructor(
     config: ValidationConfig,
     githubClient?: GitHubClient,
-    geminiClient?: GeminiClient
+    aiProvider?: AIProvider,
+    guidelinesLoader?: GuidelinesLoader
   ) {
-    if (!config.githubToken || !config.geminiApiKey || !config.guidelinesFile) {
+    // Provider API keys are checked by the provider itself, since which key is
+    // required depends on the configured backend
+    if (!config.guidelinesFile || (githubClient && !config.githubToken)) {
       throw new Error('Invalid configuration');
     }
 
@@ -61,90 +210,434 @@ export class Validator {
 
     this._config = config;
     this._githubClient = githubClient;
-    this._geminiClient = geminiClient;
+    this._aiProvider = aiProvider;
+    this._guidelinesLoader =
+      guidelinesLoader ?? new GuidelinesLoader(githubClient);
+    this._ruleEngine = config.commitRules
+      ? new CommitRuleEngine(config.commitRules)
+      : undefined;
   }
 
   /**
    * Orchestrates the complete validation workflow with timeout protection.
    *
-   * Planned workflow: extract PR data → generate prompt → validate content → update PR
-   * Currently returns stub data pending full client integration.
+   * Workflow: extract PR data → load guidelines → generate prompt → validate content.
+   * GitHub fetching and the AI call run under separate budgets carved out of
+   * `timeoutSeconds`; running out of either yields an ERROR report with
+   * reason 'timeout' instead of a rejected promise, so the PR still gets feedback.
+   *
+   * @param previous - Report of the previous run; returned again instead of
+   * calling the AI when its cache key matches the current inputs
    */
   async validate(
     owner: string,
     repo: string,
-    prNumber: number
+    prNumber: number,
+    previous?: ValidationReport
   ): Promise<ValidationReport> {
-    // 30-second timeout balances AI processing time with GitHub Actions constraints:
-    // enough time for API calls but prevents workflow from hanging indefinitely
-    const timeoutPromise = new Promise<never>((_, reject) => {
-      global.setTimeout(() => {
-        reject(new Error('Validation timeout after 30 seconds'));
-      }, 30000);
-    });
+    const budget = this.startBudget();
+
+    if (!this._githubClient) {
+      return {
+        status: 'PASS',
+        issues: [],
+        improved_title: '',
+        improved_commits: '',
+        improved_description: '',
+      };
+    }
+    const githubClient = this._githubClient;
 
-    // Create validation work promise
-    const validationPromise = this.performValidation(owner, repo, prNumber);
+    const fetched = await runWithinBudget(
+      budget.githubDeadline - Date.now(),
+      signal => githubClient.extractPRData(owner, repo, prNumber, { signal })
+    );
+    if (fetched.timedOut) {
+      return this.timeoutReport('github', budget.timeoutSeconds);
+    }
 
-    // Race between timeout and validation completion
-    return Promise.race([validationPromise, timeoutPromise]);
+    return this.evaluate(fetched.value, { owner, repo }, budget, previous);
   }
 
-  private async performValidation(
-    owner: string,
-    repo: string,
-    prNumber: number
+  /**
+   * Validates PR data that was assembled without the GitHub API, such as a
+   * local commit range. Runs the same checks as `validate`, under the same
+   * time budget.
+   *
+   * @param repository - Used to resolve the guidelines and in error messages
+   */
+  async validatePRData(
+    prData: PRData,
+    repository: Pick<GuidelinesContext, 'owner' | 'repo'>
+  ): Promise<ValidationReport> {
+    return this.evaluate(prData, repository, this.startBudget());
+  }
+
+  private startBudget(): RunBudget {
+    const timeoutSeconds =
+      this._config.timeoutSeconds ?? DEFAULT_TIMEOUT_SECONDS;
+    const startedAt = Date.now();
+    return {
+      timeoutSeconds,
+      githubDeadline: startedAt + timeoutSeconds * 1000 * GITHUB_BUDGET_SHARE,
+      deadline: startedAt + timeoutSeconds * 1000,
+    };
+  }
+
+  /**
+   * Runs the checks on fetched PR data: author skip, size guard, commit
+   * rules, then the AI review.
+   */
+  private async evaluate(
+    prData: PRData,
+    { owner, repo }: Pick<GuidelinesContext, 'owner' | 'repo'>,
+    { timeoutSeconds, githubDeadline, deadline }: RunBudget,
+    previous?: ValidationReport
   ): Promise<ValidationReport> {
-    if (this._githubClient) {
-      const prData = await this._githubClient.extractPRData(
-        owner,
-        repo,
-        prNumber
+    // Bot exclusion pattern: Skip AI validation for automated PRs
+    // This prevents dependency bots from failing validation due to different
+    // commit formats and contribution patterns that don't apply to automated updates
+    if (this._config.skipAuthors && prData.author) {
+      const skipAuthors = this._config.skipAuthors
+        .split(',')
+        .map(a => a.trim());
+      if (skipAuthors.includes(prData.author)) {
+        return {
+          status: 'PASS',
+          issues: [
+            {
+              severity: 'suggestion',
+              category: 'metadata',
+              message: `Validation skipped for automated PR by ${prData.author}`,
+            },
+          ],
+          improved_title: '',
+          improved_commits: '',
+          improved_description: '',
+          skipped: true, // Flag enables different handling in CI workflows
+        };
+      }
+    }
+
+    // Abuse guard: oversized PRs (vendor dumps, generated code) are rejected
+    // before any AI call so they cannot burn through the token budget
+    const { maxPrSize } = this._config;
+    if (maxPrSize && prData.diffStats.totalChanges > maxPrSize) {
+      return {
+        status: 'FAIL',
+        issues: [
+          {
+            severity: 'error',
+            category: 'metadata',
+            message: `PR changes ${prData.diffStats.totalChanges} lines, exceeding the limit of ${maxPrSize} lines`,
+          },
+        ],
+        improved_title: '',
+        improved_commits: '',
+        improved_description: '',
+        skipped: true,
+        reason: 'pr-too-large',
+      };
+    }
+
+    // Deterministic checks run before the AI so their findings survive an
+    // AI timeout or outage
+    const ruleVerdicts = this._ruleEngine?.check(prData.commits) ?? [];
+    const ruleIssues = this._ruleEngine?.findIssues(prData.commits) ?? [];
+    const commitShas = prData.commits.map(commit => commit.sha);
+    const timeoutReport = (phase: ValidationPhase): ValidationReport =>
+      this.mergeRuleVerdicts(
+        this.timeoutReport(phase, timeoutSeconds),
+        ruleVerdicts,
+        ruleIssues,
+        commitShas
       );
 
-      // Bot exclusion pattern: Skip AI validation for automated PRs
-      // This prevents dependency bots from failing validation due to different
-      // commit formats and contribution patterns that don't apply to automated updates
-      if (this._config.skipAuthors && prData.author) {
-        const skipAuthors = this._config.skipAuthors
-          .split(',')
-          .map(a => a.trim());
-        if (skipAuthors.includes(prData.author)) {
-          return {
-            status: 'PASS',
-            issues: [`Validation skipped for automated PR by ${prData.author}`],
-            improved_title: '',
-            improved_commits: '',
-            improved_description: '',
-            skipped: true, // Flag enables different handling in CI workflows
-          };
-        }
+    if (this._config.dryRun) {
+      const loaded = await this.loadGuidelines(
+        { owner, repo, ref: prData.baseRef },
+        githubDeadline
+      );
+      if (loaded.timedOut) {
+        return timeoutReport('github');
       }
+      return this.dryRunReport(
+        this.buildPrompt(prData, loaded.value),
+        ruleVerdicts,
+        ruleIssues,
+        commitShas
+      );
+    }
 
-      if (this._geminiClient) {
-        const prompt = this._geminiClient.generateValidationPrompt(
-          prData,
-          this._config.guidelinesFile
+    const aiProvider = this._aiProvider;
+    if (aiProvider) {
+      const loaded = await this.loadGuidelines(
+        { owner, repo, ref: prData.baseRef },
+        githubDeadline
+      );
+      if (loaded.timedOut) {
+        return timeoutReport('github');
+      }
+      const cacheKey: ResultCacheKey = {
+        fingerprint: this.fingerprint(prData, loaded.value, aiProvider),
+        commitShas,
+      };
+      if (
+        previous?.cacheKey?.fingerprint === cacheKey.fingerprint &&
+        previous.cacheKey.commitShas.length === commitShas.length
+      ) {
+        // Token usage belonged to the previous run; this one used none
+        const { tokenUsage: _unused, ...report } = remapCommitShas(
+          previous,
+          previous.cacheKey.commitShas,
+          commitShas
         );
-        // Return structured format directly from GeminiClient - this maintains
-        // consistency with ValidationReport interface and enables rich feedback
-        return await this._geminiClient.validateContent(prompt);
+        return { ...report, cacheKey, cached: true };
+      }
+
+      const { prompt, truncated } = this.buildPrompt(prData, loaded.value);
+      // The signal aborts the in-flight AI request once the budget is spent,
+      // so a hung connection does not outlive the run
+      const validated = await runWithinBudget(deadline - Date.now(), signal =>
+        aiProvider.validateContent(prompt, { signal })
+      );
+      if (validated.timedOut) {
+        return timeoutReport('ai');
+      }
+      // Return structured format directly from the provider - this maintains
+      // consistency with ValidationReport interface and enables rich feedback
+      const result = validated.value;
+      return this.withScores(
+        this.mergeRuleVerdicts(
+          {
+            ...result,
+            issues: resolveIssueTargets(result.issues, commitShas),
+            ...(result.commits && {
+              commits: resolveCommitVerdicts(result.commits, commitShas),
+            }),
+            ...(truncated && { truncated }),
+            // An outage says nothing about the PR, so it must not be reused
+            ...(result.status !== 'ERROR' && { cacheKey }),
+          },
+          ruleVerdicts,
+          ruleIssues,
+          commitShas
+        )
+      );
+    }
+
+    return this.withScores(
+      this.mergeRuleVerdicts(
+        {
+          status: 'PASS',
+          issues: [],
+          improved_title: '',
+          improved_commits: '',
+          improved_description: '',
+        },
+        ruleVerdicts,
+        ruleIssues,
+        commitShas
+      )
+    );
+  }
+
+  private promptOptions(): PromptOptions {
+    return { analysisScope: this._config.analysisScope ?? 'text' };
+  }
+
+  /**
+   * Fingerprints everything that decides a verdict: the prompt, the model
+   * asked and the commit rules merged into the report.
+   *
+   * Commit SHAs are replaced by their position first, so a rebase that keeps
+   * the messages keeps the fingerprint.
+   */
+  private fingerprint(
+    prData: PRData,
+    guidelines: string,
+    aiProvider: AIProvider
+  ): string {
+    const budgeted = fitPromptInputs(
+      {
+        ...prData,
+        commits: prData.commits.map((commit, index) => ({
+          ...commit,
+          sha: String(index),
+        })),
+      },
+      guidelines,
+      this._config.maxPromptTokens
+    );
+    return computeFingerprint([
+      buildValidationPrompt(
+        budgeted.prData,
+        budgeted.guidelines,
+        this.promptOptions()
+      ),
+      `${aiProvider.name}/${aiProvider.model}`,
+      // Scope patterns are regular expressions, which JSON cannot hold
+      JSON.stringify(this._config.commitRules ?? null, (_key, value) =>
+        value instanceof RegExp ? value.source : value
+      ),
+    ]);
+  }
+
+  /**
+   * Builds the prompt from the PR text and guidelines cut to the prompt
+   * budget. Commit rules keep checking the full messages.
+   */
+  private buildPrompt(prData: PRData, guidelines: string): BuiltPrompt {
+    const budgeted = fitPromptInputs(
+      prData,
+      guidelines,
+      this._config.maxPromptTokens
+    );
+    const options = this.promptOptions();
+    const prompt =
+      this._aiProvider?.generateValidationPrompt(
+        budgeted.prData,
+        budgeted.guidelines,
+        options
+      ) ?? buildValidationPrompt(budgeted.prData, budgeted.guidelines, options);
+    return {
+      prompt,
+      ...(budgeted.truncations.length > 0 && {
+        truncated: budgeted.truncations,
+      }),
+    };
+  }
+
+  /**
+   * Resolves the configured location into the guidelines text itself; the
+   * AI must see the actual rules, not the file name.
+   */
+  private loadGuidelines(
+    context: GuidelinesContext,
+    githubDeadline: number
+  ): Promise<BudgetResult<string>> {
+    return runWithinBudget(githubDeadline - Date.now(), signal =>
+      this._guidelinesLoader.load(this._config.guidelinesFile, context, {
+        signal,
+      })
+    );
+  }
+
+  /**
+   * Scores describe the contribution, so reports without a verdict (AI
+   * outage) get none rather than a misleading perfect score.
+   */
+  private withScores(report: ValidationReport): ValidationReport {
+    return report.status === 'ERROR'
+      ? report
+      : { ...report, scores: computeQualityScores(report.issues) };
+  }
+
+  /**
+   * Folds rule engine findings into a report.
+   *
+   * Rule violations can only make the verdict stricter; their issues are
+   * listed before the AI's. Per-commit verdicts from both sources are
+   * combined per SHA in PR order; the AI's rewrite is kept since the rules
+   * cannot suggest one. An ERROR report stays ERROR, as the AI part of the
+   * review still did not happen.
+   */
+  private mergeRuleVerdicts(
+    report: ValidationReport,
+    ruleVerdicts: readonly CommitVerdict[],
+    ruleIssues: readonly ValidationIssue[],
+    commitShas: readonly string[]
+  ): ValidationReport {
+    if (ruleVerdicts.length === 0) {
+      return report;
+    }
+
+    const commits = commitShas.flatMap(sha => {
+      const rule = ruleVerdicts.find(verdict => verdict.sha === sha);
+      const ai = report.commits?.find(verdict => verdict.sha === sha);
+      if (!rule || !ai) {
+        return rule ?? ai ?? [];
       }
+      return [
+        {
+          sha,
+          status: stricterStatus(rule.status, ai.status),
+          issues: [
+            ...rule.issues,
+            ...ai.issues.filter(issue => !rule.issues.includes(issue)),
+          ],
+          suggested_message: ai.suggested_message,
+        },
+      ];
+    });
 
-      return Promise.resolve({
+    return {
+      ...report,
+      status:
+        report.status === 'ERROR'
+          ? 'ERROR'
+          : stricterStatus(report.status, statusFromIssues(ruleIssues)),
+      issues: [...ruleIssues, ...report.issues],
+      commits,
+    };
+  }
+
+  /**
+   * Dry runs stop right before the AI call. Rule findings are still
+   * reported, but without scores, since the AI part of the review is missing.
+   */
+  private dryRunReport(
+    { prompt, truncated }: BuiltPrompt,
+    ruleVerdicts: readonly CommitVerdict[],
+    ruleIssues: readonly ValidationIssue[],
+    commitShas: readonly string[]
+  ): ValidationReport {
+    // Providers append the response format to the prompt before sending it
+    const structuredPrompt = buildStructuredPrompt(prompt);
+    return this.mergeRuleVerdicts(
+      {
         status: 'PASS',
         issues: [],
         improved_title: '',
         improved_commits: '',
         improved_description: '',
-      });
-    }
-    return Promise.resolve({
-      status: 'PASS',
-      issues: [],
+        skipped: true,
+        reason: 'dry-run',
+        dryRun: {
+          prompt: structuredPrompt,
+          estimatedTokens: estimateTokens(structuredPrompt),
+        },
+        ...(truncated && { truncated }),
+      },
+      ruleVerdicts,
+      ruleIssues,
+      commitShas
+    );
+  }
+
+  /**
+   * A timeout says nothing about the contribution itself, so it is reported
+   * as ERROR (no verdict) rather than FAIL.
+   */
+  private timeoutReport(
+    phase: ValidationPhase,
+    timeoutSeconds: number
+  ): ValidationReport {
+    return {
+      status: 'ERROR',
+      issues: [
+        {
+          severity: 'error',
+          category: 'metadata',
+          // eslint-disable-next-line security/detect-object-injection -- phase is a closed union
+          message: `Validation timed out after ${timeoutSeconds} seconds while ${PHASE_DESCRIPTIONS[phase]}`,
+        },
+      ],
       improved_title: '',
       improved_commits: '',
       improved_description: '',
-    });
+      skipped: true,
+      reason: 'timeout',
+    };
   }
 }
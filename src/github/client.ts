@@ -1,4 +1,11 @@
+import * as core from '@actions/core';
 import { getOctokit } from '@actions/github';
+import { DEFAULT_RETRY_OPTIONS, withRetry, type RetryOptions } from './retry';
+import {
+  formatMetadataBlock,
+  parseMetadataBlock,
+  type CommentMetadata,
+} from './comment-metadata';
 
 /**
  * GitHub API client for pull request validation.
@@ -35,6 +42,7 @@ export interface CommentData {
   body: string;
   created_at: string;
   updated_at: string;
+  user?: { login: string; type: string }; // Missing for deleted accounts
 }
 
 export interface CommitStatusData {
@@ -47,6 +55,38 @@ export interface CommitStatusData {
   updated_at: string;
 }
 
+export type CheckRunConclusion =
+  | 'success'
+  | 'failure'
+  | 'neutral'
+  | 'skipped'
+  | 'action_required';
+
+export interface CheckRunAnnotation {
+  path: string;
+  start_line: number;
+  end_line: number;
+  annotation_level: 'notice' | 'warning' | 'failure';
+  title?: string;
+  message: string;
+}
+
+export interface CheckRunParams {
+  name: string;
+  headSha: string;
+  conclusion: CheckRunConclusion;
+  title: string;
+  summary: string;
+  annotations?: CheckRunAnnotation[];
+  detailsUrl?: string;
+}
+
+export interface CheckRunData {
+  id: number;
+  html_url: string;
+  conclusion: string | null;
+}
+
 export interface PRData {
   number: number;
   title: string;
@@ -55,6 +95,61 @@ export interface PRData {
   files: FileData[];
   diffStats: DiffStats;
   author?: string; // GitHub user login for bot exclusion feature
+  baseRef?: string; // Target branch, used to read trusted repository files
+}
+
+export interface GitHubClientOptions {
+  /**
+   * Upper bound on pages fetched per list call. Pages hold 100 items, so the
+   * default of 30 covers GitHub's own 3000-file limit for PR file listings.
+   */
+  maxPages?: number;
+  /**
+   * Total attempts per API call when GitHub rate-limits the request or fails
+   * transiently. Defaults to 3.
+   */
+  retryAttempts?: number;
+  /** Overrides for the backoff schedule, mainly for tests */
+  retry?: Partial<RetryOptions>;
+  /**
+   * Reports conditions that do not fail a call, such as a listing cut by
+   * maxPages. Defaults to an Actions warning annotation.
+   */
+  onWarning?: (message: string) => void;
+}
+
+/**
+ * Per-call options for GitHubClient reads.
+ */
+export interface GitHubRequestOptions {
+  /**
+   * Aborts in-flight requests and stops retrying, e.g. when the validation
+   * budget runs out
+   */
+  signal?: AbortSignal;
+}
+
+// Largest page size the REST API accepts; fewer pages means fewer requests
+const PER_PAGE = 100;
+const DEFAULT_MAX_PAGES = 30;
+// GitHub rejects comment bodies longer than this
+const MAX_COMMENT_LENGTH = 65536;
+
+/**
+ * Prefixes the identifier and appends the metadata block. Metadata too large
+ * for a comment is left out; readers then treat the comment as having none.
+ */
+function buildCommentBody(
+  body: string,
+  identifier: string,
+  metadata?: CommentMetadata
+): string {
+  const commentBody = `<!-- ${identifier} -->\n${body}`;
+  if (!metadata) {
+    return commentBody;
+  }
+  const withMetadata = `${commentBody}\n${formatMetadataBlock(metadata)}`;
+  return withMetadata.length <= MAX_COMMENT_LENGTH ? withMetadata : commentBody;
 }
 
 /**
@@ -63,27 +158,87 @@ export interface PRData {
  */
 export class GitHubClient {
   readonly #octokit: ReturnType<typeof getOctokit>;
+  readonly #maxPages: number;
+  readonly #retryOptions: RetryOptions;
+  readonly #warn: (message: string) => void;
 
-  constructor(token: string) {
+  constructor(token: string, options: GitHubClientOptions = {}) {
     if (!token) {
       throw new Error('GitHub token is required');
     }
+    const {
+      maxPages = DEFAULT_MAX_PAGES,
+      retryAttempts = DEFAULT_RETRY_OPTIONS.maxAttempts,
+    } = options;
+    if (!Number.isInteger(maxPages) || maxPages <= 0) {
+      throw new Error('maxPages must be a positive integer');
+    }
+    if (!Number.isInteger(retryAttempts) || retryAttempts <= 0) {
+      throw new Error('retryAttempts must be a positive integer');
+    }
 
     // Accept any non-empty token - GitHub API validates authenticity
 
     this.#octokit = getOctokit(token);
+    this.#maxPages = maxPages;
+    this.#retryOptions = {
+      ...DEFAULT_RETRY_OPTIONS,
+      ...options.retry,
+      maxAttempts: retryAttempts,
+    };
+    this.#warn = options.onWarning ?? core.warning;
+  }
+
+  /**
+   * Runs one API call under the shared retry policy.
+   */
+  private request<T>(
+    operation: () => Promise<T>,
+    signal?: AbortSignal
+  ): Promise<T> {
+    return withRetry(operation, this.#retryOptions, signal);
+  }
+
+  /**
+   * Page callback for octokit.paginate that stops after the configured number
+   * of pages, so huge PRs cannot turn one run into thousands of API requests.
+   * Stopping while more pages exist is reported, as the listing is incomplete.
+   *
+   * @param listing - What is being listed, for the warning
+   */
+  private limitPages<T>(
+    listing: string
+  ): (
+    response: { data: T[]; headers: { link?: string } },
+    done: () => void
+  ) => T[] {
+    let pages = 0;
+    return (response, done) => {
+      pages += 1;
+      if (pages >= this.#maxPages) {
+        done();
+        if (response.headers.link?.includes('rel="next"')) {
+          this.#warn(
+            `Listing ${listing} stopped after ${this.#maxPages} pages; raise max-api-pages to read the rest`
+          );
+        }
+      }
+      return response.data;
+    };
   }
 
   /**
    * Extracts comprehensive PR data including commits, files, and diff statistics.
    *
    * Uses Promise.all() for parallel API calls to optimize performance
-   * when fetching related GitHub data.
+   * when fetching related GitHub data. Commits and files are paginated, since
+   * the API returns only 30 items per page by default.
    */
   async extractPRData(
     owner: string,
     repo: string,
-    prNumber: number
+    prNumber: number,
+    options: GitHubRequestOptions = {}
   ): Promise<PRData> {
     // Input validation prevents cryptic GitHub API errors by failing fast
     // at method boundaries with actionable error messages
@@ -97,26 +252,54 @@ export class GitHubClient {
       throw new Error('Invalid PR number: must be a positive integer');
     }
 
+    const { signal } = options;
+    // Octokit passes the signal on to fetch, cancelling the HTTP requests
+    const requestOptions = signal && { request: { signal } };
     try {
-      const [prResponse, commitsResponse, filesResponse] = await Promise.all([
-        this.#octokit.rest.pulls.get({
-          owner,
-          repo,
-          pull_number: prNumber,
-        }),
-        this.#octokit.rest.pulls.listCommits({
-          owner,
-          repo,
-          pull_number: prNumber,
-        }),
-        this.#octokit.rest.pulls.listFiles({
-          owner,
-          repo,
-          pull_number: prNumber,
-        }),
+      const [prResponse, commitsData, filesData] = await Promise.all([
+        this.request(
+          () =>
+            this.#octokit.rest.pulls.get({
+              owner,
+              repo,
+              pull_number: prNumber,
+              ...requestOptions,
+            }),
+          signal
+        ),
+        this.request(
+          () =>
+            this.#octokit.paginate(
+              this.#octokit.rest.pulls.listCommits,
+              {
+                owner,
+                repo,
+                pull_number: prNumber,
+                per_page: PER_PAGE,
+                ...requestOptions,
+              },
+              this.limitPages(`commits of PR #${prNumber}`)
+            ),
+          signal
+        ),
+        this.request(
+          () =>
+            this.#octokit.paginate(
+              this.#octokit.rest.pulls.listFiles,
+              {
+                owner,
+                repo,
+                pull_number: prNumber,
+                per_page: PER_PAGE,
+                ...requestOptions,
+              },
+              this.limitPages(`files of PR #${prNumber}`)
+            ),
+          signal
+        ),
       ]);
 
-      const commits: CommitData[] = commitsResponse.data.map(commit => ({
+      const commits: CommitData[] = commitsData.map(commit => ({
         sha: commit.sha,
         message: commit.commit.message,
         author: {
@@ -126,7 +309,7 @@ export class GitHubClient {
         },
       }));
 
-      const files: FileData[] = filesResponse.data.map(file => {
+      const files: FileData[] = filesData.map(file => {
         const fileData: FileData = {
           filename: file.filename,
           status: file.status,
@@ -140,11 +323,22 @@ export class GitHubClient {
         return fileData;
       });
 
+      // The PR's own totals cover every file, while the file listing may be
+      // cut by maxPages; sums over the listing are only a fallback
+      const {
+        additions,
+        deletions,
+        changed_files: changedFiles,
+      } = prResponse.data;
+      const totalAdditions =
+        additions ?? files.reduce((sum, file) => sum + file.additions, 0);
+      const totalDeletions =
+        deletions ?? files.reduce((sum, file) => sum + file.deletions, 0);
       const diffStats: DiffStats = {
-        totalAdditions: files.reduce((sum, file) => sum + file.additions, 0),
-        totalDeletions: files.reduce((sum, file) => sum + file.deletions, 0),
-        totalChanges: files.reduce((sum, file) => sum + file.changes, 0),
-        filesChanged: files.length,
+        totalAdditions,
+        totalDeletions,
+        totalChanges: totalAdditions + totalDeletions,
+        filesChanged: changedFiles ?? files.length,
       };
 
       return {
@@ -155,6 +349,7 @@ export class GitHubClient {
         files,
         diffStats,
         author: prResponse.data.user?.login, // Extract PR author for bot detection
+        baseRef: prResponse.data.base?.ref,
       };
     } catch (error) {
       // Transform GitHub API errors into actionable user guidance rather than
@@ -213,32 +408,52 @@ export class GitHubClient {
    * enables findCommentByIdentifier() to locate and update existing comments.
    * This prevents duplicate comments on subsequent validation runs and allows
    * multiple validators to coexist by using unique identifiers.
+   *
+   * @param metadata - Run details embedded as a hidden block, read back with
+   * readCommentMetadata()
    */
   async createComment(
     owner: string,
     repo: string,
     prNumber: number,
     body: string,
-    identifier: string
+    identifier: string,
+    metadata?: CommentMetadata
   ): Promise<CommentData> {
     try {
       // HTML comments are invisible to users but allow programmatic tracking -
       // this enables idempotent updates without creating duplicate comments
-      const commentBody = `<!-- ${identifier} -->\n${body}`;
-
-      const response = await this.#octokit.rest.issues.createComment({
-        owner,
-        repo,
-        issue_number: prNumber,
-        body: commentBody,
+      const commentBody = buildCommentBody(body, identifier, metadata);
+
+      // Creating is not idempotent: a 5xx may still have posted the comment,
+      // so each retry first looks for it to avoid posting a duplicate
+      let attempted = false;
+      return await this.request(async () => {
+        if (attempted) {
+          const posted = await this.findCommentByIdentifier(
+            owner,
+            repo,
+            prNumber,
+            identifier
+          );
+          if (posted?.body === commentBody) {
+            return posted;
+          }
+        }
+        attempted = true;
+        const response = await this.#octokit.rest.issues.createComment({
+          owner,
+          repo,
+          issue_number: prNumber,
+          body: commentBody,
+        });
+        return {
+          id: response.data.id,
+          body: response.data.body as string,
+          created_at: response.data.created_at,
+          updated_at: response.data.updated_at,
+        };
       });
-
-      return {
-        id: response.data.id,
-        body: response.data.body as string,
-        created_at: response.data.created_at,
-        updated_at: response.data.updated_at,
-      };
     } catch (error) {
       throw new Error(
         `Failed to create comment: ${error instanceof Error ? error.message : String(error)}`
@@ -246,6 +461,64 @@ export class GitHubClient {
     }
   }
 
+  /**
+   * Reads a UTF-8 text file from the repository at the given ref.
+   *
+   * Returns null when the path does not exist so callers can fall back to
+   * other sources; any other API failure is surfaced as an error.
+   */
+  async getFileContent(
+    owner: string,
+    repo: string,
+    path: string,
+    ref?: string,
+    options: GitHubRequestOptions = {}
+  ): Promise<string | null> {
+    const { signal } = options;
+    try {
+      const params: {
+        owner: string;
+        repo: string;
+        path: string;
+        ref?: string;
+        request?: { signal: AbortSignal };
+      } = { owner, repo, path };
+      if (ref) {
+        params.ref = ref;
+      }
+      if (signal) {
+        params.request = { signal };
+      }
+
+      const response = await this.request(
+        () => this.#octokit.rest.repos.getContent(params),
+        signal
+      );
+
+      // Directories come back as arrays and symlinks/submodules lack content
+      if (Array.isArray(response.data) || response.data.type !== 'file') {
+        throw new Error(`"${path}" is not a file`);
+      }
+
+      const { content, encoding } = response.data;
+      return Buffer.from(
+        content,
+        encoding === 'base64' ? 'base64' : 'utf8'
+      ).toString('utf8');
+    } catch (error) {
+      if (
+        error &&
+        typeof error === 'object' &&
+        (error as { status?: number }).status === 404
+      ) {
+        return null;
+      }
+      throw new Error(
+        `Failed to read file: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
   async findCommentByIdentifier(
     owner: string,
     repo: string,
@@ -253,16 +526,31 @@ export class GitHubClient {
     identifier: string
   ): Promise<CommentData | null> {
     try {
-      const response = await this.#octokit.rest.issues.listComments({
-        owner,
-        repo,
-        issue_number: prNumber,
+      const identifierPattern = `<!-- ${identifier} -->`;
+      const hasIdentifier = (body: string | undefined): boolean =>
+        body?.includes(identifierPattern) ?? false;
+
+      // Busy discussions span several pages; stop as soon as the bot comment
+      // shows up instead of always walking to the last page
+      const comments = await this.request(() => {
+        const limit = this.limitPages<{ body?: string }>(
+          `comments of PR #${prNumber}`
+        );
+        return this.#octokit.paginate(
+          this.#octokit.rest.issues.listComments,
+          { owner, repo, issue_number: prNumber, per_page: PER_PAGE },
+          (response, done) => {
+            if (response.data.some(comment => hasIdentifier(comment.body))) {
+              done();
+            } else {
+              limit(response, done);
+            }
+            return response.data;
+          }
+        );
       });
 
-      const identifierPattern = `<!-- ${identifier} -->`;
-      const comment = response.data.find(comment =>
-        (comment.body as string).includes(identifierPattern)
-      );
+      const comment = comments.find(comment => hasIdentifier(comment.body));
 
       if (!comment) {
         return null;
@@ -273,6 +561,9 @@ export class GitHubClient {
         body: comment.body as string,
         created_at: comment.created_at,
         updated_at: comment.updated_at,
+        ...(comment.user && {
+          user: { login: comment.user.login, type: comment.user.type },
+        }),
       };
     } catch (error) {
       throw new Error(
@@ -281,22 +572,39 @@ export class GitHubClient {
     }
   }
 
+  /**
+   * Reads the metadata block a previous run embedded in its comment.
+   *
+   * Anyone can post a comment containing the identifier, so only comments
+   * written by a bot account are trusted; otherwise a contributor could plant
+   * a passing verdict for their own PR.
+   */
+  readCommentMetadata(comment: CommentData): CommentMetadata | undefined {
+    if (comment.user?.type !== 'Bot') {
+      return undefined;
+    }
+    return parseMetadataBlock(comment.body);
+  }
+
   async updateComment(
     owner: string,
     repo: string,
     commentId: number,
     body: string,
-    identifier: string
+    identifier: string,
+    metadata?: CommentMetadata
   ): Promise<CommentData> {
     try {
-      const commentBody = `<!-- ${identifier} -->\n${body}`;
+      const commentBody = buildCommentBody(body, identifier, metadata);
 
-      const response = await this.#octokit.rest.issues.updateComment({
-        owner,
-        repo,
-        comment_id: commentId,
-        body: commentBody,
-      });
+      const response = await this.request(() =>
+        this.#octokit.rest.issues.updateComment({
+          owner,
+          repo,
+          comment_id: commentId,
+          body: commentBody,
+        })
+      );
 
       return {
         id: response.data.id,
@@ -342,8 +650,9 @@ export class GitHubClient {
         params.target_url = target_url;
       }
 
-      const response =
-        await this.#octokit.rest.repos.createCommitStatus(params);
+      const response = await this.request(() =>
+        this.#octokit.rest.repos.createCommitStatus(params)
+      );
 
       return {
         id: response.data.id,
@@ -359,107 +668,50 @@ export class GitHubClient {
         updated_at: response.data.updated_at,
       };
     } catch (error) {
-      // Check if it's a rate limit error (HTTP 403 or 429)
-      if (
-        this.isRateLimitError(error as { status?: number; message?: string })
-      ) {
-        // 3 attempts with exponential backoff handle transient rate limits gracefully
-        for (let attempt = 0; attempt < 3; attempt++) {
-          try {
-            // Exponential backoff: 1s, 2s delay progression
-            if (attempt > 0) {
-              const delay = 1000 * Math.pow(2, attempt - 1);
-              await new Promise(resolve => global.setTimeout(resolve, delay));
-            }
-
-            const params: {
-              owner: string;
-              repo: string;
-              sha: string;
-              state: 'pending' | 'success' | 'failure' | 'error';
-              description: string;
-              context: string;
-              target_url?: string;
-            } = {
-              owner,
-              repo,
-              sha,
-              state,
-              description,
-              context,
-            };
-
-            if (target_url) {
-              params.target_url = target_url;
-            }
-
-            const response =
-              await this.#octokit.rest.repos.createCommitStatus(params);
-
-            return {
-              id: response.data.id,
-              state: response.data.state as
-                | 'pending'
-                | 'success'
-                | 'failure'
-                | 'error',
-              description: response.data.description ?? '',
-              context: response.data.context ?? '',
-              target_url: response.data.target_url ?? undefined,
-              created_at: response.data.created_at,
-              updated_at: response.data.updated_at,
-            };
-          } catch (retryError) {
-            // If this is the last attempt or not a rate limit error, throw
-            if (
-              attempt === 2 ||
-              !this.isRateLimitError(
-                retryError as { status?: number; message?: string }
-              )
-            ) {
-              throw new Error(
-                `Failed to create commit status after ${attempt + 1} attempts: ${retryError instanceof Error ? retryError.message : String(retryError)}`
-              );
-            }
-          }
-        }
-      }
       throw new Error(
         `Failed to create commit status: ${error instanceof Error ? error.message : String(error)}`
       );
     }
   }
 
-  private isRateLimitError(error: {
-    status?: number;
-    message?: string;
-  }): boolean {
-    return error?.status === 403 || error?.status === 429;
-  }
-
-  /* TODO: Implement proper exponential backoff for retries
-  private async retryWithBackoff<T>(
-    operation: () => Promise<T>,
-    attempt: number,
-    maxRetries: number = 3
-  ): Promise<T> {
-    if (attempt > maxRetries) {
-      throw new Error(`Max retries (${maxRetries}) exceeded for GitHub API call`);
-    }
-
-    // Exponential backoff: 2^attempt seconds (2s, 4s, 8s)
-    const delayMs = Math.pow(2, attempt) * 1000;
-    
-    await new Promise(resolve => setTimeout(resolve, delayMs));
-
+  /**
+   * Creates a completed check run on the given commit.
+   *
+   * The Checks API accepts at most 50 annotations per request; callers are
+   * expected to trim their list, extra annotations are dropped here as a guard.
+   */
+  async createCheckRun(
+    owner: string,
+    repo: string,
+    params: CheckRunParams
+  ): Promise<CheckRunData> {
     try {
-      return await operation();
+      const response = await this.request(() =>
+        this.#octokit.rest.checks.create({
+          owner,
+          repo,
+          name: params.name,
+          head_sha: params.headSha,
+          status: 'completed',
+          conclusion: params.conclusion,
+          ...(params.detailsUrl && { details_url: params.detailsUrl }),
+          output: {
+            title: params.title,
+            summary: params.summary,
+            annotations: (params.annotations ?? []).slice(0, 50),
+          },
+        })
+      );
+
+      return {
+        id: response.data.id,
+        html_url: response.data.html_url ?? '',
+        conclusion: response.data.conclusion,
+      };
     } catch (error) {
-      if (this.isRateLimitError(error)) {
-        return this.retryWithBackoff(operation, attempt + 1, maxRetries);
-      }
-      throw error;
+      throw new Error(
+        `Failed to create check run: ${error instanceof Error ? error.message : String(error)}`
+      );
     }
   }
-  */
 }
@@ -0,0 +1,154 @@
+/**
+ * Comment Metadata
+ *
+ * Machine-readable record of a validation run, embedded in the bot comment
+ * as a hidden HTML comment. Later runs read it to reuse or compare results,
+ * and other tooling can read a PR's last verdict without running the AI.
+ *
+ * The block is JSON with a `version` field; readers ignore versions they do
+ * not know, so the format can evolve without misreading old comments.
+ */
+
+import type { AIProviderName, ValidationIssue } from '../ai/provider';
+import type { ValidationReport } from '../core/validator';
+
+export const COMMENT_METADATA_VERSION = 1;
+
+const METADATA_MARKER = 'ai-validator-metadata';
+
+// The block is always appended last, so only a block that ends the body is
+// read; blocks earlier in the body may come from AI-generated text
+const METADATA_BLOCK_PATTERN = new RegExp(
+  `^<!-- ${METADATA_MARKER} (\\{[\\s\\S]*\\}) -->\\s*$`
+);
+
+/**
+ * Parts of a report kept only so it can be restored in full, e.g. to reuse
+ * it; the fields tooling usually needs are top-level in CommentMetadata.
+ */
+export type ReportDetails = Omit<
+  ValidationReport,
+  'status' | 'issues' | 'model' | 'provider' | 'cacheKey' | 'dryRun'
+>;
+
+/**
+ * Version 1 of the metadata block.
+ */
+export interface CommentMetadata {
+  version: typeof COMMENT_METADATA_VERSION;
+  status: ValidationReport['status'];
+  issues: ValidationIssue[];
+  model?: string;
+  provider?: AIProviderName;
+  fingerprint?: string; // Set when the result may be reused
+  commitShas?: string[]; // PR commits the fingerprint was taken for
+  headSha?: string; // PR head commit the run validated
+  timestamp: string; // ISO 8601 time of the run
+  runUrl?: string; // Workflow run that wrote the comment
+  details: ReportDetails;
+}
+
+/**
+ * Where and when a report was produced.
+ */
+export interface RunContext {
+  headSha?: string;
+  runUrl?: string;
+  timestamp: string;
+}
+
+/**
+ * Builds the metadata block content for a report.
+ */
+export function createCommentMetadata(
+  report: ValidationReport,
+  { headSha, runUrl, timestamp }: RunContext
+): CommentMetadata {
+  const {
+    status,
+    issues,
+    model,
+    provider,
+    cacheKey,
+    dryRun: _dryRun,
+    ...details
+  } = report;
+  return {
+    version: COMMENT_METADATA_VERSION,
+    status,
+    issues,
+    ...(model && { model }),
+    ...(provider && { provider }),
+    ...(cacheKey && {
+      fingerprint: cacheKey.fingerprint,
+      commitShas: cacheKey.commitShas,
+    }),
+    ...(headSha && { headSha }),
+    timestamp,
+    ...(runUrl && { runUrl }),
+    details,
+  };
+}
+
+/**
+ * Restores the report a metadata block was created from.
+ */
+export function reportFromMetadata(
+  metadata: CommentMetadata
+): ValidationReport {
+  const { status, issues, model, provider, fingerprint, commitShas, details } =
+    metadata;
+  return {
+    ...details,
+    status,
+    issues,
+    ...(model && { model }),
+    ...(provider && { provider }),
+    ...(fingerprint && commitShas && { cacheKey: { fingerprint, commitShas } }),
+  };
+}
+
+/**
+ * Renders metadata as a hidden HTML comment.
+ */
+export function formatMetadataBlock(metadata: CommentMetadata): string {
+  // "--" never occurs in JSON outside strings, so escaping it inside strings
+  // keeps the JSON from closing the HTML comment
+  const json = JSON.stringify(metadata).replace(/--/g, '-\\u002d');
+  return `<!-- ${METADATA_MARKER} ${json} -->`;
+}
+
+/**
+ * Extracts the metadata block from a comment body.
+ *
+ * @returns The metadata, or undefined when the body has no block, the block
+ * is malformed or it has an unknown version
+ */
+export function parseMetadataBlock(body: string): CommentMetadata | undefined {
+  const start = body.lastIndexOf(`<!-- ${METADATA_MARKER} `);
+  const json =
+    start === -1
+      ? undefined
+      : METADATA_BLOCK_PATTERN.exec(body.slice(start))?.[1];
+  if (!json) {
+    return undefined;
+  }
+  try {
+    const data = JSON.parse(json) as Partial<CommentMetadata>;
+    if (
+      data.version !== COMMENT_METADATA_VERSION ||
+      typeof data.status !== 'string' ||
+      !Array.isArray(data.issues) ||
+      (data.commitShas !== undefined && !Array.isArray(data.commitShas)) ||
+      typeof data.timestamp !== 'string' ||
+      !data.details ||
+      typeof data.details !== 'object'
+    ) {
+      return undefined;
+    }
+    return data as CommentMetadata;
+  } catch {
+    // A hand-edited or cut-off block is treated like a missing one
+    return undefined;
+  }
+}
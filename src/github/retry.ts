@@ -0,0 +1,176 @@
+/**
+ * Retry policy for GitHub API calls.
+ *
+ * GitHub signals throttling in several ways: 429 responses, 403 responses for
+ * exhausted primary rate limits (`x-ratelimit-remaining: 0`) and 403 responses
+ * for secondary rate limits (abuse detection, usually with `Retry-After`). A 403
+ * without any of those markers is a genuine permission error and must fail
+ * immediately, since retrying cannot fix missing token scopes.
+ */
+
+export interface RetryOptions {
+  /** Total attempts including the first call */
+  maxAttempts: number;
+  /** Delay before the second attempt; doubles for every further attempt */
+  baseDelayMs: number;
+  /**
+   * Longest wait accepted between attempts. When GitHub asks to wait longer
+   * (e.g. a rate limit reset an hour away) the error is surfaced instead of
+   * stalling the workflow.
+   */
+  maxDelayMs: number;
+  /** Injection points for deterministic tests */
+  sleep?: (ms: number, signal?: AbortSignal) => Promise<void>;
+  random?: () => number;
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  maxAttempts: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 60000,
+};
+
+/**
+ * Shape of octokit's RequestError that the policy inspects.
+ */
+interface GitHubErrorLike {
+  status?: number;
+  message?: string;
+  response?: { headers?: Record<string, string | number | undefined> };
+}
+
+// 5xx responses from GitHub are typically transient load-balancer failures
+const TRANSIENT_STATUSES = [429, 500, 502, 503, 504];
+
+function asGitHubError(error: unknown): GitHubErrorLike {
+  return error && typeof error === 'object' ? (error as GitHubErrorLike) : {};
+}
+
+function header(error: GitHubErrorLike, name: string): string | undefined {
+  // eslint-disable-next-line security/detect-object-injection -- header names are fixed literals
+  const value = error.response?.headers?.[name];
+  return value === undefined ? undefined : String(value);
+}
+
+/**
+ * Whether a 403 response is a (primary or secondary) rate limit rather than
+ * a permission problem.
+ */
+export function isRateLimited(error: unknown): boolean {
+  const githubError = asGitHubError(error);
+  if (githubError.status === 429) {
+    return true;
+  }
+  if (githubError.status !== 403) {
+    return false;
+  }
+  return (
+    header(githubError, 'retry-after') !== undefined ||
+    header(githubError, 'x-ratelimit-remaining') === '0' ||
+    /rate limit/i.test(githubError.message ?? '')
+  );
+}
+
+/**
+ * Whether another attempt may succeed.
+ */
+export function isRetryableError(error: unknown): boolean {
+  const { status } = asGitHubError(error);
+  return (
+    isRateLimited(error) ||
+    (status !== undefined && TRANSIENT_STATUSES.includes(status))
+  );
+}
+
+/**
+ * Computes how long to wait before the given retry attempt (1-based count of
+ * failures so far).
+ *
+ * Server hints win over the exponential schedule: `Retry-After` (seconds) is
+ * sent with secondary rate limits, `x-ratelimit-reset` (epoch seconds) with an
+ * exhausted primary limit. Without hints the delay doubles per attempt with
+ * "equal jitter" (half fixed, half random) so parallel jobs do not retry in
+ * lockstep.
+ */
+export function retryDelayMs(
+  error: unknown,
+  failedAttempts: number,
+  options: RetryOptions,
+  now: number = Date.now()
+): number {
+  const githubError = asGitHubError(error);
+
+  const retryAfter = Number(header(githubError, 'retry-after'));
+  if (Number.isFinite(retryAfter) && retryAfter >= 0) {
+    return retryAfter * 1000;
+  }
+
+  const reset = Number(header(githubError, 'x-ratelimit-reset'));
+  if (
+    header(githubError, 'x-ratelimit-remaining') === '0' &&
+    Number.isFinite(reset)
+  ) {
+    return Math.max(0, reset * 1000 - now);
+  }
+
+  const random = options.random ?? Math.random;
+  const exponential = options.baseDelayMs * 2 ** (failedAttempts - 1);
+  return Math.min(
+    options.maxDelayMs,
+    exponential / 2 + (random() * exponential) / 2
+  );
+}
+
+/**
+ * Waits for the given time, or until the signal aborts.
+ */
+function sleepUnlessAborted(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    const done = (): void => {
+      global.clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    };
+    const timer = global.setTimeout(done, ms);
+    signal?.addEventListener('abort', done, { once: true });
+  });
+}
+
+/**
+ * Runs the operation, retrying rate-limited and transient failures.
+ *
+ * @param signal - Stops retrying once aborted, so a timed-out run does not
+ * keep the process alive with pending back-off timers
+ * @throws The last error once attempts are exhausted, immediately for
+ * non-retryable errors, when GitHub asks to wait longer than maxDelayMs, or
+ * when the signal aborts
+ */
+export async function withRetry<T>(
+  operation: () => Promise<T>,
+  options: RetryOptions = DEFAULT_RETRY_OPTIONS,
+  signal?: AbortSignal
+): Promise<T> {
+  const sleep = options.sleep ?? sleepUnlessAborted;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation();
+    } catch (error) {
+      if (
+        signal?.aborted ||
+        attempt >= options.maxAttempts ||
+        !isRetryableError(error)
+      ) {
+        throw error;
+      }
+      const delay = retryDelayMs(error, attempt, options);
+      if (delay > options.maxDelayMs) {
+        throw error;
+      }
+      await sleep(delay, signal);
+      if (signal?.aborted) {
+        throw error;
+      }
+    }
+  }
+}
@@ -0,0 +1,173 @@
+/**
+ * Guidelines Loader
+ *
+ * Resolves the `guidelines-file` input into the actual guidelines text that is
+ * sent to the AI. Supports three sources:
+ * - HTTP(S) URLs, for organisation-wide guidelines hosted in another repository
+ * - Repository files read from the PR's base ref via the GitHub contents API
+ * - Files in the local workspace (e.g. after actions/checkout)
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { GitHubClient, GitHubRequestOptions } from '../github/client';
+
+/**
+ * Repository context used to resolve repository-relative guidelines paths.
+ */
+export interface GuidelinesContext {
+  owner: string;
+  repo: string;
+  ref?: string | undefined;
+}
+
+// Guidelines are prompt input; anything larger is almost certainly a mistake
+// and would blow the model's context window.
+const MAX_GUIDELINES_BYTES = 512 * 1024;
+const URL_FETCH_TIMEOUT_MS = 10000;
+
+/**
+ * Loads contribution guidelines from a URL, the repository, or the workspace.
+ */
+export class GuidelinesLoader {
+  private readonly _githubClient: GitHubClient | undefined;
+  private readonly _workspace: string;
+
+  /**
+   * @param githubClient - Client used to read files from the base ref
+   * @param workspace - Root directory for local lookups, defaults to GITHUB_WORKSPACE
+   */
+  constructor(githubClient?: GitHubClient, workspace?: string) {
+    this._githubClient = githubClient;
+    this._workspace =
+      workspace ?? process.env['GITHUB_WORKSPACE'] ?? process.cwd();
+  }
+
+  /**
+   * Resolves a guidelines location into its text content.
+   *
+   * Repository lookup runs before the workspace on purpose: the workspace of a
+   * pull_request run usually contains the PR's own changes, so a contributor
+   * could otherwise relax the rules their PR is validated against.
+   *
+   * @param location - URL or repository-relative path of the guidelines file
+   * @param context - Repository and base ref used for repository lookups
+   * @param options - Signal aborting URL and repository requests
+   * @throws Error when the guidelines cannot be found or are empty
+   */
+  async load(
+    location: string,
+    context: GuidelinesContext,
+    options: GitHubRequestOptions = {}
+  ): Promise<string> {
+    const trimmed = location.trim();
+    if (trimmed === '') {
+      throw new Error('Guidelines location cannot be empty');
+    }
+
+    if (/^https?:\/\//i.test(trimmed)) {
+      return this.ensureContent(
+        await this.loadFromUrl(trimmed, options.signal),
+        trimmed
+      );
+    }
+
+    if (this._githubClient) {
+      const content = await this._githubClient.getFileContent(
+        context.owner,
+        context.repo,
+        trimmed,
+        context.ref,
+        options
+      );
+      if (content !== null) {
+        return this.ensureContent(content, trimmed);
+      }
+    }
+
+    const local = this.loadFromWorkspace(trimmed);
+    if (local !== null) {
+      return this.ensureContent(local, trimmed);
+    }
+
+    const refLabel = context.ref ? `@${context.ref}` : '';
+    throw new Error(
+      `Guidelines file "${trimmed}" not found in ${context.owner}/${context.repo}${refLabel} or in the workspace`
+    );
+  }
+
+  private async loadFromUrl(
+    url: string,
+    signal?: AbortSignal
+  ): Promise<string> {
+    const timeout = global.AbortSignal.timeout(URL_FETCH_TIMEOUT_MS);
+    const response = await global
+      .fetch(url, {
+        signal: signal ? global.AbortSignal.any([signal, timeout]) : timeout,
+      })
+      .catch((error: unknown) => {
+        throw new Error(
+          `Failed to fetch guidelines from ${url}: ${error instanceof Error ? error.message : String(error)}`
+        );
+      });
+
+    if (!response.ok) {
+      throw new Error(
+        `Failed to fetch guidelines from ${url}: HTTP ${response.status}`
+      );
+    }
+
+    return response.text();
+  }
+
+  private loadFromWorkspace(location: string): string | null {
+    const workspace = path.resolve(this._workspace);
+    const filePath = path.resolve(workspace, location);
+
+    // Keep lookups inside the workspace so the input cannot read runner files
+    if (!isInside(workspace, filePath)) {
+      throw new Error(
+        `Guidelines file "${location}" must be inside the workspace`
+      );
+    }
+
+    // Path is confined to the workspace by the check above
+    // eslint-disable-next-line security/detect-non-literal-fs-filename
+    if (!fs.existsSync(filePath) || !fs.statSync(filePath).isFile()) {
+      return null;
+    }
+
+    // A PR can add a symlink in place of the file, e.g. to /proc/self/environ,
+    // so the link target must be inside the workspace as well
+    // eslint-disable-next-line security/detect-non-literal-fs-filename
+    const realWorkspace = fs.realpathSync(workspace);
+    // eslint-disable-next-line security/detect-non-literal-fs-filename
+    const realPath = fs.realpathSync(filePath);
+    if (!isInside(realWorkspace, realPath)) {
+      throw new Error(
+        `Guidelines file "${location}" must be inside the workspace`
+      );
+    }
+
+    // eslint-disable-next-line security/detect-non-literal-fs-filename
+    return fs.readFileSync(realPath, 'utf8');
+  }
+
+  private ensureContent(content: string, location: string): string {
+    if (content.trim() === '') {
+      throw new Error(`Guidelines file "${location}" is empty`);
+    }
+    if (Buffer.byteLength(content, 'utf8') > MAX_GUIDELINES_BYTES) {
+      throw new Error(
+        `Guidelines file "${location}" exceeds ${MAX_GUIDELINES_BYTES / 1024} KB`
+      );
+    }
+    return content;
+  }
+}
+
+function isInside(directory: string, filePath: string): boolean {
+  return (
+    filePath === directory || filePath.startsWith(`${directory}${path.sep}`)
+  );
+}
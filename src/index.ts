@@ -8,10 +8,427 @@
 
 import * as core from '@actions/core';
 import * as fs from 'fs';
-import { GitHubClient } from './github/client';
-import { GeminiClient } from './ai/gemini-client';
-import { Validator, type ValidationConfig } from './core/validator';
+import * as path from 'path';
+import { GitHubClient, type CommentData } from './github/client';
+import {
+  createCommentMetadata,
+  reportFromMetadata,
+  type CommentMetadata,
+} from './github/comment-metadata';
+import type { IssueSeverity } from './ai/provider';
+import {
+  Validator,
+  type DryRunPrompt,
+  type ValidationConfig,
+  type ValidationReport,
+} from './core/validator';
+import {
+  DEFAULT_CONFIG_PATH,
+  loadRepoConfig,
+  type RepoConfig,
+} from './config/repo-config';
+import {
+  createAIProviderFromSettings,
+  readPositiveIntInput,
+  readValidationConfig,
+  type SettingReader,
+} from './config/settings';
 import { ResultFormatter } from './core/formatter';
+import { CheckRunReporter } from './core/check-reporter';
+
+/**
+ * Where validation results are delivered: a PR comment, a check run, or both.
+ */
+const REPORT_MODES = ['comment', 'check', 'both'] as const;
+type ReportMode = (typeof REPORT_MODES)[number];
+
+/**
+ * Explicit action inputs win over the repository configuration file.
+ * action.yml declares no defaults for settings the file may provide, since
+ * a default would be indistinguishable from an explicit input.
+ */
+function createSettingReader(repoConfig?: RepoConfig): SettingReader {
+  return name => core.getInput(name) || (repoConfig?.settings.get(name) ?? '');
+}
+
+/**
+ * Loads the repository configuration file from the PR's base branch.
+ *
+ * Without a repository context there is nothing to read the file from; the
+ * missing context is reported by the regular context checks afterwards.
+ */
+async function loadRepoConfigFromContext(
+  githubClient: GitHubClient,
+  configPath: string
+): Promise<RepoConfig | undefined> {
+  const [owner, repo] = (process.env['GITHUB_REPOSITORY'] ?? '').split('/');
+  if (!owner || !repo) {
+    return undefined;
+  }
+  // GITHUB_BASE_REF is only set for pull_request events; other events read
+  // the file from the default branch
+  return loadRepoConfig(
+    githubClient,
+    owner,
+    repo,
+    process.env['GITHUB_BASE_REF'],
+    configPath
+  );
+}
+
+/**
+ * Target of the commit status published for the PR head commit.
+ * Captured once the PR context is known so the error path can resolve a
+ * pending status instead of leaving it spinning forever.
+ */
+interface CommitStatusTarget {
+  githubClient: GitHubClient;
+  owner: string;
+  repo: string;
+  sha: string;
+  context: string;
+}
+
+// GitHub rejects commit status descriptions longer than 140 characters
+const MAX_STATUS_DESCRIPTION_LENGTH = 140;
+
+/**
+ * Publishes a commit status without ever failing the action.
+ * Missing `statuses: write` permission should degrade to a warning, since the
+ * PR comment still carries the full feedback.
+ */
+async function publishCommitStatus(
+  target: CommitStatusTarget,
+  state: 'pending' | 'success' | 'failure' | 'error',
+  description: string,
+  targetUrl?: string
+): Promise<void> {
+  const truncated =
+    description.length > MAX_STATUS_DESCRIPTION_LENGTH
+      ? `${description.substring(0, MAX_STATUS_DESCRIPTION_LENGTH - 3)}...`
+      : description;
+  try {
+    await target.githubClient.createCommitStatus(
+      target.owner,
+      target.repo,
+      target.sha,
+      state,
+      truncated,
+      target.context,
+      targetUrl
+    );
+  } catch (error) {
+    core.warning(
+      `Failed to set commit status: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
+
+function countIssues(
+  report: ValidationReport,
+  severity: IssueSeverity
+): number {
+  return report.issues.filter(issue => issue.severity === severity).length;
+}
+
+/**
+ * Maps a validation report onto a commit status state and short description.
+ */
+function commitStatusFor(report: ValidationReport): {
+  state: 'success' | 'failure' | 'error';
+  description: string;
+} {
+  if (report.status === 'ERROR') {
+    return {
+      state: 'error',
+      description:
+        report.reason === 'timeout'
+          ? 'Validation timed out - please review manually'
+          : 'AI validation could not run - please review manually',
+    };
+  }
+  if (report.status === 'FAIL') {
+    return {
+      state: 'failure',
+      description:
+        report.reason === 'pr-too-large'
+          ? 'PR exceeds the configured size limit'
+          : `${countIssues(report, 'error')} blocking issue(s) found`,
+    };
+  }
+  if (report.status === 'WARNINGS') {
+    return {
+      state: 'success',
+      description: `Passed with ${countIssues(report, 'warning')} warning(s)`,
+    };
+  }
+  return {
+    state: 'success',
+    description: report.skipped
+      ? 'Validation skipped'
+      : 'Contribution meets guidelines',
+  };
+}
+
+/**
+ * Serializes the complete report for the `validation-json` output and file.
+ * Unlike `validation-summary` it includes scores and suggestions, and names
+ * the PR so collected files can be told apart.
+ */
+function validationJsonFor(
+  report: ValidationReport,
+  owner: string,
+  repo: string,
+  prNumber: number
+): string {
+  return JSON.stringify({
+    repository: `${owner}/${repo}`,
+    pullRequest: prNumber,
+    status: report.status,
+    scores: report.scores,
+    issues: report.issues,
+    commits: report.commits,
+    improved_title: report.improved_title,
+    improved_commits: report.improved_commits,
+    improved_description: report.improved_description,
+    skipped: report.skipped ?? false,
+    reason: report.reason,
+    provider: report.provider,
+    model: report.model,
+    fallbackFrom: report.fallbackFrom,
+    truncated: report.truncated,
+    cached: report.cached,
+  });
+}
+
+/**
+ * Writes the JSON report for later workflow steps, e.g. to upload as an
+ * artifact. Failing to write it does not invalidate the validation, so the
+ * error is only logged.
+ */
+function writeValidationJson(filePath: string, json: string): void {
+  try {
+    // Security note: the path comes from the workflow author's own input
+    // eslint-disable-next-line security/detect-non-literal-fs-filename
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    // eslint-disable-next-line security/detect-non-literal-fs-filename
+    fs.writeFileSync(filePath, `${json}\n`, 'utf8');
+    core.info(`Wrote validation JSON to ${filePath}`);
+  } catch (error) {
+    core.warning(
+      `Failed to write validation JSON to ${filePath}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
+
+/**
+ * Appends content to the job summary. The summary is a convenience next to
+ * the PR comment and outputs, so failing to write it (e.g. outside GitHub
+ * Actions, where $GITHUB_STEP_SUMMARY is unset) is only logged.
+ */
+async function appendJobSummary(
+  content: string,
+  build: (summary: typeof core.summary) => void
+): Promise<void> {
+  try {
+    build(core.summary);
+    await core.summary.write();
+  } catch (error) {
+    core.warning(
+      `Failed to write ${content} to the job summary: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
+
+/**
+ * Publishes the prompt a dry run built as outputs and in the job summary.
+ */
+async function reportDryRun(dryRun: DryRunPrompt): Promise<void> {
+  core.setOutput('dry-run-prompt', dryRun.prompt);
+  core.setOutput('estimated-prompt-tokens', String(dryRun.estimatedTokens));
+  core.info(
+    `Dry run: built a prompt of about ${dryRun.estimatedTokens} tokens; skipping the AI call and PR comment`
+  );
+  await appendJobSummary('the dry-run prompt', summary => {
+    summary.addHeading('AI Validation Dry Run');
+    summary.addRaw(
+      `Estimated prompt tokens: <b>${dryRun.estimatedTokens}</b>`,
+      true
+    );
+    summary.addCodeBlock(escapeHtml(dryRun.prompt));
+  });
+}
+
+/**
+ * Run details shown below the report in the job summary; the PR comment
+ * leaves them out since they matter to maintainers, not contributors.
+ */
+function runDetailsFor(
+  report: ValidationReport,
+  durationMs: number
+): string[][] {
+  const rows = [['Duration', `${(durationMs / 1000).toFixed(1)} s`]];
+  if (report.model) {
+    rows.push([
+      'Model',
+      report.provider ? `${report.provider}/${report.model}` : report.model,
+    ]);
+  }
+  if (report.fallbackFrom?.length) {
+    rows.push(['Failed providers', report.fallbackFrom.join(', ')]);
+  }
+  if (report.tokenUsage) {
+    const { promptTokens, completionTokens, totalTokens } = report.tokenUsage;
+    rows.push([
+      'Token usage',
+      `${totalTokens} (${promptTokens} prompt, ${completionTokens} completion)`,
+    ]);
+  }
+  if (report.cached) {
+    rows.push(['Result', 'reused from the previous run']);
+  }
+  if (report.skipped) {
+    rows.push(['Skipped', report.reason ?? 'excluded author']);
+  }
+  return rows;
+}
+
+/**
+ * Writes the rendered report and run details to the job summary, so results
+ * are visible in the Actions UI even when no PR comment could be posted.
+ */
+async function writeResultSummary(
+  report: ValidationReport,
+  formattedResult: string,
+  durationMs: number
+): Promise<void> {
+  await appendJobSummary('the validation results', summary => {
+    summary.addRaw(formattedResult, true);
+    summary.addHeading('Run details', 3);
+    summary.addTable([
+      [
+        { data: 'Detail', header: true },
+        { data: 'Value', header: true },
+      ],
+      ...runDetailsFor(report, durationMs),
+    ]);
+  });
+}
+
+/**
+ * Links the workflow run that is validating the PR, when running in Actions.
+ */
+function currentRunUrl(): string | undefined {
+  const serverUrl = process.env['GITHUB_SERVER_URL'];
+  const repository = process.env['GITHUB_REPOSITORY'];
+  const runId = process.env['GITHUB_RUN_ID'];
+  if (!serverUrl || !repository || !runId) {
+    return undefined;
+  }
+  return `${serverUrl}/${repository}/actions/runs/${runId}`;
+}
+
+/**
+ * Looks up the validation comment left by a previous run.
+ *
+ * @returns The comment, or null when there is none or the lookup failed, in
+ * which case a new comment is created later
+ */
+async function findExistingComment(
+  githubClient: GitHubClient,
+  owner: string,
+  repo: string,
+  prNumber: number,
+  commentIdentifier: string
+): Promise<CommentData | null> {
+  try {
+    return await githubClient.findCommentByIdentifier(
+      owner,
+      repo,
+      prNumber,
+      commentIdentifier
+    );
+  } catch (error) {
+    // This could occur if GitHub API is degraded or permissions are restricted
+    core.warning(
+      `Error checking for existing comment: ${error}, creating new comment`
+    );
+    return null;
+  }
+}
+
+/**
+ * Reads the report a previous run recorded in its comment's metadata.
+ */
+function previousReportFrom(
+  githubClient: GitHubClient,
+  comment: CommentData | null
+): ValidationReport | undefined {
+  const metadata = comment && githubClient.readCommentMetadata(comment);
+  return metadata ? reportFromMetadata(metadata) : undefined;
+}
+
+/**
+ * Creates or updates the validation comment on the PR.
+ */
+async function upsertComment(
+  githubClient: GitHubClient,
+  owner: string,
+  repo: string,
+  prNumber: number,
+  body: string,
+  commentIdentifier: string,
+  existingComment: CommentData | null,
+  metadata: CommentMetadata
+): Promise<CommentData> {
+  // Idempotent comment management: prevents duplicate comments on force-push/re-runs
+  // Design rationale: GitHub Actions often run multiple times (e.g., push, then force-push),
+  // and without this logic, each run would create a new comment, cluttering the PR interface.
+  // The HTML comment identifier pattern allows us to track and update specific comments
+  // while supporting multiple validators with different identifiers in the same PR.
+  if (existingComment) {
+    core.info(
+      `Found existing comment with ID ${existingComment.id}, updating...`
+    );
+    // Handles the edge case where a comment exists but becomes invalid
+    // between find and update (e.g., user deleted it).
+    // This ensures the action always succeeds in posting feedback.
+    try {
+      return await githubClient.updateComment(
+        owner,
+        repo,
+        existingComment.id,
+        body,
+        commentIdentifier,
+        metadata
+      );
+    } catch (updateError) {
+      // Graceful degradation: if update fails, create new comment rather than failing
+      core.warning(
+        `Failed to update comment: ${updateError}, creating new comment instead`
+      );
+    }
+  } else {
+    // Standard path for first-time validation
+    core.info('No existing comment found, creating new comment...');
+  }
+
+  return githubClient.createComment(
+    owner,
+    repo,
+    prNumber,
+    body,
+    commentIdentifier,
+    metadata
+  );
+}
 
 /**
  * Main GitHub Action entry point that orchestrates the validation workflow.
@@ -24,33 +441,84 @@ import { ResultFormatter } from './core/formatter';
  * but handle validation errors gracefully to provide useful feedback without blocking PRs.
  */
 export async function run(): Promise<void> {
+  let statusTarget: CommitStatusTarget | undefined;
   try {
     core.info('AI Contribution Validator Action starting...');
 
-    // Parse GitHub Actions inputs - follows standard action input pattern
+    // Parse GitHub Actions inputs - follows standard action input pattern.
+    // Connection settings are needed to read the repository configuration
+    // file, so they can only come from inputs.
     const githubToken = core.getInput('github-token');
-    const geminiApiKey = core.getInput('gemini-api-key');
-    const guidelinesFile =
-      core.getInput('guidelines-file') || 'CONTRIBUTING.md';
-    const skipAuthors = core.getInput('skip-authors');
+    // Bounds list pagination so enormous PRs cannot exhaust the API rate limit
+    const maxApiPages = readPositiveIntInput(
+      core.getInput,
+      'max-api-pages',
+      30
+    );
+    const apiRetryAttempts = readPositiveIntInput(
+      core.getInput,
+      'api-retry-attempts',
+      3
+    );
+    const githubClient = new GitHubClient(githubToken, {
+      maxPages: maxApiPages,
+      retryAttempts: apiRetryAttempts,
+    });
+
+    const repoConfig = await loadRepoConfigFromContext(
+      githubClient,
+      core.getInput('config-file') || DEFAULT_CONFIG_PATH
+    );
+    if (repoConfig) {
+      core.info(`Loaded configuration from ${repoConfig.path}`);
+    }
+    const read = createSettingReader(repoConfig);
+
+    const sharedConfig = readValidationConfig(read);
+    const { guidelinesFile } = sharedConfig;
+    const skipAuthors = read('skip-authors');
     // Comment identifier enables multiple validators to coexist in same repository
     // without overwriting each other's feedback comments
     const commentIdentifier =
       core.getInput('comment-identifier') || 'ai-validator';
+    // Separate status context lets several validators report on the same commit
+    const statusContext = core.getInput('status-context') || 'ai-validator';
+    const reportMode = read('report-mode') || 'comment';
+    if (!REPORT_MODES.includes(reportMode as ReportMode)) {
+      throw new Error(
+        `Invalid report-mode input "${reportMode}": must be one of ${REPORT_MODES.join(', ')}`
+      );
+    }
+    // Opt-in so existing workflows keep treating validation as advisory
+    const failOnErrors = read('fail-on-errors').trim().toLowerCase() === 'true';
+    // Workflow-specific, so it is not read from the repository configuration
+    const validationJsonFile = core.getInput('validation-json-file').trim();
+    // Debugging aid for a single workflow run, so not read from the file
+    const dryRun = core.getInput('dry-run').trim().toLowerCase() === 'true';
 
-    core.info('Creating validator with GitHub and Gemini clients...');
+    const providerName = read('ai-provider') || 'gemini';
+    // A dry run never calls the AI, so it must not require an API key
+    const aiProvider = dryRun ? undefined : createAIProviderFromSettings(read);
+
+    if (dryRun) {
+      core.info('Creating validator with GitHub client for a dry run...');
+    } else {
+      core.info(
+        aiProvider
+          ? `Creating validator with GitHub client and ${providerName} provider...`
+          : 'Creating validator with GitHub client and commit rules only...'
+      );
+    }
 
     // Dependency injection pattern enables isolated testing and graceful degradation
     const config: ValidationConfig = {
+      ...sharedConfig,
       githubToken,
-      geminiApiKey,
-      guidelinesFile,
       skipAuthors,
+      ...(dryRun && { dryRun }),
     };
 
-    const githubClient = new GitHubClient(githubToken);
-    const geminiClient = new GeminiClient(geminiApiKey);
-    const validator = new Validator(config, githubClient, geminiClient);
+    const validator = new Validator(config, githubClient, aiProvider);
 
     core.info('Starting validation workflow...');
 
@@ -74,6 +542,7 @@ export async function run(): Promise<void> {
     }
 
     let prNumber: number;
+    let headSha: string | undefined;
     try {
       // Security note: Path is controlled by GitHub Actions runtime, not user input
       // eslint-disable-next-line security/detect-non-literal-fs-filename
@@ -84,6 +553,7 @@ export async function run(): Promise<void> {
       if (!prNumber) {
         throw new Error('PR number not found in GitHub event data');
       }
+      headSha = eventData.pull_request?.head?.sha;
     } catch (error) {
       throw new Error(
         `Failed to parse GitHub event: ${error instanceof Error ? error.message : String(error)}`
@@ -92,101 +562,191 @@ export async function run(): Promise<void> {
 
     core.info(`Validating PR #${prNumber} in ${owner}/${repo}`);
 
+    // A dry run leaves no trace on the PR, not even a pending status
+    if (headSha && !dryRun) {
+      statusTarget = {
+        githubClient,
+        owner,
+        repo,
+        sha: headSha,
+        context: statusContext,
+      };
+      // A check run carries the verdict under the same name, so a pending
+      // status would linger next to it in the PR checks list
+      if (reportMode === 'comment') {
+        await publishCommitStatus(
+          statusTarget,
+          'pending',
+          'Validating contribution guidelines...'
+        );
+      }
+    }
+
+    // Looked up before validating, as the comment carries the previous
+    // report that unchanged PRs reuse instead of asking the AI again
+    const existingComment =
+      reportMode !== 'check' && !dryRun
+        ? await findExistingComment(
+            githubClient,
+            owner,
+            repo,
+            prNumber,
+            commentIdentifier
+          )
+        : null;
+    // Reused when nothing changed, otherwise compared against in the comment
+    const previousReport = previousReportFrom(githubClient, existingComment);
+
     // Execute validation workflow with extracted context
     // Returns structured format with status, issues, and AI improvement suggestions
-    const validationResult = await validator.validate(owner, repo, prNumber);
+    const startedAt = Date.now();
+    const validationResult = await validator.validate(
+      owner,
+      repo,
+      prNumber,
+      previousReport
+    );
+    if (validationResult.cached) {
+      core.info(
+        'PR text, commits and guidelines are unchanged since the last run, reusing its result'
+      );
+    }
+    const durationMs = Date.now() - startedAt;
+
+    // Outputs are set before commenting so downstream steps can still gate on
+    // the verdict when the token lacks permission to post PR comments
+    core.setOutput('validation-status', validationResult.status);
+    core.setOutput(
+      'validation-summary',
+      JSON.stringify({
+        status: validationResult.status,
+        issues: validationResult.issues,
+        skipped: validationResult.skipped ?? false,
+        reason: validationResult.reason,
+        provider: validationResult.provider,
+        model: validationResult.model,
+        fallbackFrom: validationResult.fallbackFrom,
+        commits: validationResult.commits,
+      })
+    );
+    const validationJson = validationJsonFor(
+      validationResult,
+      owner,
+      repo,
+      prNumber
+    );
+    core.setOutput('validation-json', validationJson);
+    if (validationJsonFile) {
+      writeValidationJson(validationJsonFile, validationJson);
+    }
 
-    // Create PR comment with validation result
+    if (validationResult.dryRun) {
+      await reportDryRun(validationResult.dryRun);
+      return;
+    }
+
+    // Render the validation result once for the comment and/or check run
     // ResultFormatter converts structured data into rich markdown, separating
     // issues (problems to fix) from improvements (AI suggestions for enhancement)
-    const formatter = new ResultFormatter();
-    const formattedResult = formatter.formatToMarkdown(validationResult);
-
-    // Idempotent comment management: prevents duplicate comments on force-push/re-runs
-    // Design rationale: GitHub Actions often run multiple times (e.g., push, then force-push),
-    // and without this logic, each run would create a new comment, cluttering the PR interface.
-    // The HTML comment identifier pattern allows us to track and update specific comments
-    // while supporting multiple validators with different identifiers in the same PR.
-    let commentResult;
-    try {
-      const existingComment = await githubClient.findCommentByIdentifier(
+    const formatter = new ResultFormatter(repoConfig?.templates);
+    const formattedResult = formatter.formatToMarkdown(
+      validationResult,
+      previousReport
+    );
+    // Written before posting: fork PRs often lack permission to comment
+    await writeResultSummary(validationResult, formattedResult, durationMs);
+
+    let resultUrl: string | undefined;
+    if (reportMode !== 'check') {
+      const runUrl = currentRunUrl();
+      const commentResult = await upsertComment(
+        githubClient,
         owner,
         repo,
         prNumber,
-        commentIdentifier
+        formattedResult,
+        commentIdentifier,
+        existingComment,
+        createCommentMetadata(validationResult, {
+          ...(headSha && { headSha }),
+          ...(runUrl && { runUrl }),
+          timestamp: new Date().toISOString(),
+        })
       );
 
-      if (existingComment) {
-        core.info(
-          `Found existing comment with ID ${existingComment.id}, updating...`
+      // Construct GitHub comment URL following standard GitHub URL patterns
+      // This enables CI/CD systems to link directly to the posted feedback
+      resultUrl = `https://github.com/${owner}/${repo}/pull/${prNumber}#issuecomment-${commentResult.id}`;
+      core.setOutput('comment-url', resultUrl);
+    }
+
+    let checkRunCreated = false;
+    if (reportMode !== 'comment') {
+      if (!headSha) {
+        throw new Error(
+          'Cannot create check run: PR head SHA not found in GitHub event data'
         );
-        // Nested try-catch pattern handles the edge case where a comment exists
-        // but becomes invalid between find and update (e.g., user deleted it).
-        // This ensures the action always succeeds in posting feedback.
-        try {
-          commentResult = await githubClient.updateComment(
-            owner,
-            repo,
-            existingComment.id,
-            formattedResult,
-            commentIdentifier
-          );
-        } catch (updateError) {
-          // Graceful degradation: if update fails, create new comment rather than failing
-          core.warning(
-            `Failed to update comment: ${updateError}, creating new comment instead`
-          );
-          commentResult = await githubClient.createComment(
-            owner,
-            repo,
-            prNumber,
-            formattedResult,
-            commentIdentifier
-          );
-        }
-      } else {
-        // Standard path for first-time validation
-        core.info('No existing comment found, creating new comment...');
-        commentResult = await githubClient.createComment(
+      }
+      const checkReporter = new CheckRunReporter(githubClient, {
+        name: statusContext,
+        annotationPath: /^https?:\/\//i.test(guidelinesFile)
+          ? 'CONTRIBUTING.md'
+          : guidelinesFile,
+      });
+      // Missing `checks: write` permission degrades to a warning like a
+      // failed commit status; the commit status below then carries the verdict
+      try {
+        const checkRun = await checkReporter.report(
           owner,
           repo,
-          prNumber,
-          formattedResult,
-          commentIdentifier
+          headSha,
+          validationResult,
+          formattedResult
+        );
+        core.setOutput('check-run-url', checkRun.html_url);
+        resultUrl ??= checkRun.html_url;
+        checkRunCreated = true;
+      } catch (error) {
+        core.warning(
+          `Failed to create check run: ${error instanceof Error ? error.message : String(error)}`
         );
       }
-    } catch (error) {
-      // Outer catch ensures action never fails due to comment management issues.
-      // This could occur if GitHub API is degraded or permissions are restricted.
-      core.warning(
-        `Error checking for existing comment: ${error}, creating new comment`
-      );
-      commentResult = await githubClient.createComment(
-        owner,
-        repo,
-        prNumber,
-        formattedResult,
-        commentIdentifier
-      );
     }
 
-    // Construct GitHub comment URL following standard GitHub URL patterns
-    // This enables CI/CD systems to link directly to the posted feedback
-    const commentUrl = `https://github.com/${owner}/${repo}/pull/${prNumber}#issuecomment-${commentResult.id}`;
-    core.setOutput('comment-url', commentUrl);
+    // The check run already reports the verdict under the same name
+    if (statusTarget && !checkRunCreated) {
+      const { state, description } = commitStatusFor(validationResult);
+      await publishCommitStatus(statusTarget, state, description, resultUrl);
+    }
 
-    // Report results using appropriate GitHub Actions logging levels
+    // Report results using appropriate GitHub Actions logging levels.
+    // Only FAIL can fail the job; WARNINGS and ERROR stay advisory even with
+    // fail-on-errors so branch protection blocks on real guideline violations only.
     if (validationResult.status === 'PASS') {
       core.info('Validation completed successfully - PR meets guidelines');
+    } else if (validationResult.status === 'ERROR') {
+      core.warning(
+        `Validation could not be completed: ${validationResult.issues.map(issue => issue.message).join(', ')}`
+      );
+    } else if (validationResult.status === 'FAIL' && failOnErrors) {
+      core.setFailed(
+        `Validation failed: ${validationResult.issues.map(issue => issue.message).join(', ')}`
+      );
     } else {
       core.warning(
-        `Validation found issues: ${validationResult.issues.join(', ')}`
+        `Validation found issues: ${validationResult.issues.map(issue => issue.message).join(', ')}`
       );
     }
   } catch (error) {
-    core.setFailed(
-      `Action failed: ${error instanceof Error ? error.message : String(error)}`
-    );
+    const message = error instanceof Error ? error.message : String(error);
+    if (statusTarget) {
+      await publishCommitStatus(
+        statusTarget,
+        'error',
+        `Validation error: ${message}`
+      );
+    }
+    core.setFailed(`Action failed: ${message}`);
   }
 }
 
@@ -0,0 +1,400 @@
+/**
+ * Commit Rule Engine
+ *
+ * Deterministic Conventional Commits checks that run locally over the PR's
+ * commits. Unlike the AI review these checks are instant, free and give the
+ * same answer on every run, so mechanical format problems are reported even
+ * when the AI is disabled or unavailable.
+ */
+
+import type { CommitVerdict, ValidationIssue } from '../ai/provider';
+import type { CommitData } from '../github/client';
+
+export type CommitRuleName =
+  | 'type'
+  | 'scope'
+  | 'subject-length'
+  | 'imperative-mood'
+  | 'body-wrap'
+  | 'trailing-period'
+  | 'breaking-change';
+
+export const COMMIT_RULE_NAMES: readonly CommitRuleName[] = [
+  'type',
+  'scope',
+  'subject-length',
+  'imperative-mood',
+  'body-wrap',
+  'trailing-period',
+  'breaking-change',
+];
+
+export const DEFAULT_COMMIT_TYPES: readonly string[] = [
+  'feat',
+  'fix',
+  'docs',
+  'style',
+  'refactor',
+  'perf',
+  'test',
+  'build',
+  'ci',
+  'chore',
+  'revert',
+];
+
+export interface CommitRulesOptions {
+  /** Rules to run; all rules by default */
+  rules: readonly CommitRuleName[];
+  /** Allowed commit types */
+  types: readonly string[];
+  /** Scopes must match this pattern in full; any scope is accepted when unset */
+  scopePattern?: RegExp | undefined;
+  /** Longest accepted header (`type(scope): subject`) */
+  maxSubjectLength: number;
+  /** Longest accepted body line */
+  maxBodyLineLength: number;
+}
+
+export const DEFAULT_COMMIT_RULES_OPTIONS: CommitRulesOptions = {
+  rules: COMMIT_RULE_NAMES,
+  types: DEFAULT_COMMIT_TYPES,
+  maxSubjectLength: 72,
+  maxBodyLineLength: 100,
+};
+
+/**
+ * Broken structure makes the history unusable for changelog tooling, so it
+ * fails; style problems only warn.
+ */
+const RULE_SEVERITY: Record<CommitRuleName, 'FAIL' | 'WARNINGS'> = {
+  type: 'FAIL',
+  scope: 'FAIL',
+  'subject-length': 'WARNINGS',
+  'imperative-mood': 'WARNINGS',
+  'body-wrap': 'WARNINGS',
+  'trailing-period': 'WARNINGS',
+  'breaking-change': 'FAIL',
+};
+
+// Commits generated by GitHub or git itself, whose format contributors do not choose
+const GENERATED_COMMIT_PATTERN =
+  /^(Merge (pull request|branch|remote-tracking branch) |Revert ")/;
+
+// Verbs commonly starting commit subjects. Only their -s, -ed and -ing forms
+// are flagged, so nouns and adjectives such as "deps", "typos" or "unused"
+// are never mistaken for verbs.
+const COMMIT_VERBS = new Set([
+  'add',
+  'adjust',
+  'allow',
+  'apply',
+  'avoid',
+  'bump',
+  'change',
+  'clean',
+  'configure',
+  'convert',
+  'correct',
+  'create',
+  'delete',
+  'deprecate',
+  'disable',
+  'document',
+  'drop',
+  'enable',
+  'ensure',
+  'extend',
+  'extract',
+  'fix',
+  'handle',
+  'implement',
+  'improve',
+  'include',
+  'increase',
+  'introduce',
+  'make',
+  'merge',
+  'migrate',
+  'move',
+  'optimize',
+  'prevent',
+  'reduce',
+  'refactor',
+  'release',
+  'remove',
+  'rename',
+  'replace',
+  'resolve',
+  'restore',
+  'revert',
+  'rewrite',
+  'show',
+  'simplify',
+  'skip',
+  'support',
+  'switch',
+  'tweak',
+  'update',
+  'upgrade',
+  'use',
+]);
+
+interface ParsedCommit {
+  header: string;
+  type: string;
+  scope: string | undefined;
+  subject: string;
+  bodyLines: string[];
+  /** Lines of the last body paragraph, where footers such as `BREAKING CHANGE:` go */
+  footerLines: string[];
+}
+
+/**
+ * Runs the enabled rules over each commit of a PR.
+ */
+export class CommitRuleEngine {
+  private readonly _options: CommitRulesOptions;
+
+  constructor(options: Partial<CommitRulesOptions> = {}) {
+    this._options = { ...DEFAULT_COMMIT_RULES_OPTIONS, ...options };
+  }
+
+  get rules(): readonly CommitRuleName[] {
+    return this._options.rules;
+  }
+
+  /**
+   * Returns one verdict per checked commit, in PR order. Merge and revert
+   * commits created by GitHub or git are skipped.
+   */
+  check(commits: readonly CommitData[]): CommitVerdict[] {
+    return this.lintCommits(commits).map(({ commit, violations }) => {
+      const failed = violations.some(
+        violation => RULE_SEVERITY[violation.rule] === 'FAIL'
+      );
+      return {
+        sha: commit.sha,
+        status: failed ? 'FAIL' : violations.length > 0 ? 'WARNINGS' : 'PASS',
+        issues: violations.map(violation => violation.message),
+        suggested_message: '',
+      };
+    });
+  }
+
+  /**
+   * Returns every violation as a commit issue targeting the commit's SHA,
+   * with the rule's severity.
+   */
+  findIssues(commits: readonly CommitData[]): ValidationIssue[] {
+    return this.lintCommits(commits).flatMap(({ commit, violations }) =>
+      violations.map(violation => ({
+        severity:
+          RULE_SEVERITY[violation.rule] === 'FAIL' ? 'error' : 'warning',
+        category: 'commits',
+        target: commit.sha,
+        message: violation.message,
+      }))
+    );
+  }
+
+  /**
+   * Checks a single commit message against the enabled rules.
+   */
+  lintMessage(
+    message: string
+  ): Array<{ rule: CommitRuleName; message: string }> {
+    const enabled = new Set(this._options.rules);
+    const violations: Array<{ rule: CommitRuleName; message: string }> = [];
+    const report = (rule: CommitRuleName, text: string): void => {
+      if (enabled.has(rule)) {
+        violations.push({ rule, message: text });
+      }
+    };
+
+    const parsed = parseCommitMessage(message);
+    if (!parsed) {
+      report(
+        'type',
+        'Header does not follow the Conventional Commits format `type(scope): subject`'
+      );
+      return violations;
+    }
+
+    const { types, scopePattern, maxSubjectLength, maxBodyLineLength } =
+      this._options;
+
+    if (!types.includes(parsed.type)) {
+      report(
+        'type',
+        `Commit type "${parsed.type}" is not allowed (use one of ${types.join(', ')})`
+      );
+    }
+
+    if (parsed.scope !== undefined) {
+      if (parsed.scope.trim() === '') {
+        report(
+          'scope',
+          'Scope must not be empty; drop the parentheses instead'
+        );
+      } else if (scopePattern && !scopePattern.test(parsed.scope)) {
+        report(
+          'scope',
+          `Scope "${parsed.scope}" does not match the allowed pattern ${scopePattern.source}`
+        );
+      }
+    }
+
+    if (parsed.header.length > maxSubjectLength) {
+      report(
+        'subject-length',
+        `Header is ${parsed.header.length} characters long; keep it within ${maxSubjectLength}`
+      );
+    }
+
+    if (!isImperative(parsed.subject)) {
+      report(
+        'imperative-mood',
+        `Subject should use the imperative mood ("add", not "added" or "adds")`
+      );
+    }
+
+    if (parsed.subject.endsWith('.')) {
+      report('trailing-period', 'Subject should not end with a period');
+    }
+
+    const longLines = parsed.bodyLines.filter(
+      // URLs cannot be wrapped without breaking them
+      line => line.length > maxBodyLineLength && !/^\S+:\/\/\S+$/.test(line)
+    ).length;
+    if (longLines > 0) {
+      report(
+        'body-wrap',
+        `Body has ${longLines} line(s) longer than ${maxBodyLineLength} characters`
+      );
+    }
+
+    // Only footers count: prose such as "Breaking changes: none" in the body
+    // is not a footer, and only footer-like tokens are near misses
+    for (const line of parsed.footerLines) {
+      if (
+        /^breaking[ _-]?changes?\s*(:|\s#)/i.test(line) &&
+        !/^BREAKING[ -]CHANGE: \S/.test(line)
+      ) {
+        report(
+          'breaking-change',
+          'Breaking change footer must be written as `BREAKING CHANGE: <description>`'
+        );
+      }
+    }
+
+    return violations;
+  }
+
+  private lintCommits(commits: readonly CommitData[]): Array<{
+    commit: CommitData;
+    violations: Array<{ rule: CommitRuleName; message: string }>;
+  }> {
+    return commits
+      .filter(commit => !GENERATED_COMMIT_PATTERN.test(commit.message))
+      .map(commit => ({
+        commit,
+        violations: this.lintMessage(commit.message),
+      }));
+  }
+}
+
+function parseCommitMessage(message: string): ParsedCommit | undefined {
+  const [header = '', ...rest] = message.trim().split(/\r?\n/);
+
+  // Parsed by hand: `type(scope)!: subject`, with scope and `!` optional
+  const separator = header.indexOf(': ');
+  if (separator === -1) {
+    return undefined;
+  }
+  const prefix = header.slice(0, separator).replace(/!$/, '');
+  const subject = header.slice(separator + 2).trim();
+  const scopeStart = prefix.indexOf('(');
+  const type = scopeStart === -1 ? prefix : prefix.slice(0, scopeStart);
+  if (
+    !/^\w+$/.test(type) ||
+    subject === '' ||
+    (scopeStart !== -1 && !prefix.endsWith(')'))
+  ) {
+    return undefined;
+  }
+
+  const paragraphs = rest
+    .join('\n')
+    .split(/\n\s*\n/)
+    .map(paragraph => paragraph.split('\n').filter(line => line.trim() !== ''))
+    .filter(lines => lines.length > 0);
+
+  return {
+    header,
+    type,
+    scope: scopeStart === -1 ? undefined : prefix.slice(scopeStart + 1, -1),
+    subject,
+    bodyLines: rest.filter(line => line.trim() !== ''),
+    footerLines: paragraphs.at(-1) ?? [],
+  };
+}
+
+/**
+ * Heuristic: past tense ("added"), third person ("adds") and gerunds
+ * ("adding") of common commit verbs are the usual non-imperative forms in
+ * commit subjects.
+ */
+function isImperative(subject: string): boolean {
+  const [firstWord = ''] = subject.toLowerCase().split(/\s+/);
+  return !verbStems(firstWord).some(stem => COMMIT_VERBS.has(stem));
+}
+
+/**
+ * Possible base forms of a word ending in -s, -ed or -ing, covering dropped
+ * "e" ("using"), doubled consonants ("dropped") and "y" to "i" ("applies").
+ */
+function verbStems(word: string): string[] {
+  const suffix = /(ing|ed|es|s)$/.exec(word)?.[1];
+  if (!suffix) {
+    return [];
+  }
+  const stem = word.slice(0, -suffix.length);
+  const stems = [stem, `${stem}e`];
+  if (/(.)\1$/.test(stem)) {
+    stems.push(stem.slice(0, -1));
+  }
+  if (stem.endsWith('i')) {
+    stems.push(`${stem.slice(0, -1)}y`);
+  }
+  return stems;
+}
+
+/**
+ * Parses the `commit-rules` input: `all`, `none` or a comma-separated list of
+ * rule names.
+ *
+ * @throws Error naming the first unknown rule
+ */
+export function parseCommitRuleList(spec: string): CommitRuleName[] {
+  const trimmed = spec.trim().toLowerCase();
+  if (trimmed === '' || trimmed === 'all') {
+    return [...COMMIT_RULE_NAMES];
+  }
+  if (trimmed === 'none') {
+    return [];
+  }
+  return trimmed
+    .split(/[,\n]/)
+    .map(entry => entry.trim())
+    .filter(entry => entry !== '')
+    .map(entry => {
+      const rule = COMMIT_RULE_NAMES.find(name => name === entry);
+      if (!rule) {
+        throw new Error(
+          `Invalid commit-rules entry "${entry}": must be one of all, none, ${COMMIT_RULE_NAMES.join(', ')}`
+        );
+      }
+      return rule;
+    });
+}
@@ -0,0 +1,182 @@
+import { describe, it, expect, vi } from 'vitest';
+import { URL } from 'url';
+import type * as actionsGithub from '@actions/github';
+import { http, HttpResponse } from 'msw';
+import { server } from '../mocks/server';
+import { GITHUB_API_BASE, paginatedGitHubHandler } from '../mocks/handlers';
+import { GitHubClient } from '../../src/github/client';
+
+/**
+ * GitHub Pagination Integration Tests
+ *
+ * @actions/github sends requests through its own undici fetch, which MSW cannot
+ * intercept. Routing the real octokit through the global fetch lets these tests
+ * exercise octokit's paginate helper against multi-page MSW handlers.
+ */
+vi.mock('@actions/github', async importOriginal => {
+  const actual = await importOriginal<typeof actionsGithub>();
+  return {
+    ...actual,
+    getOctokit: (token: string): ReturnType<typeof actionsGithub.getOctokit> =>
+      actual.getOctokit(token, { request: { fetch: global.fetch } }),
+  };
+});
+
+const createCommits = (count: number): unknown[] =>
+  Array.from({ length: count }, (_, i) => ({
+    sha: `sha${i + 1}`,
+    commit: {
+      message: `feat: change ${i + 1}`,
+      author: {
+        name: 'Test Author',
+        email: 'test@example.com',
+        date: '2025-01-01T10:00:00Z',
+      },
+    },
+  }));
+
+const createFiles = (count: number): unknown[] =>
+  Array.from({ length: count }, (_, i) => ({
+    filename: `src/file${i + 1}.ts`,
+    status: 'modified',
+    additions: 2,
+    deletions: 1,
+    changes: 3,
+  }));
+
+const createComments = (count: number, botCommentAt?: number): unknown[] =>
+  Array.from({ length: count }, (_, i) => ({
+    id: i + 1,
+    body:
+      i + 1 === botCommentAt
+        ? '<!-- ai-validator -->\n## 🤖 AI Validation Results'
+        : `Comment ${i + 1}`,
+    created_at: '2025-01-01T10:00:00Z',
+    updated_at: '2025-01-01T10:00:00Z',
+  }));
+
+describe('Integration: GitHub pagination', () => {
+  it('should collect commits and files across all pages', async () => {
+    server.use(
+      paginatedGitHubHandler(
+        '/repos/owner/repo/pulls/1/commits',
+        createCommits(250)
+      ),
+      paginatedGitHubHandler(
+        '/repos/owner/repo/pulls/1/files',
+        createFiles(120)
+      )
+    );
+    const client = new GitHubClient('ghp_test_token');
+
+    const prData = await client.extractPRData('owner', 'repo', 1);
+
+    expect(prData.commits).toHaveLength(250);
+    expect(prData.commits[249]!.sha).toBe('sha250');
+    expect(prData.files).toHaveLength(120);
+    expect(prData.diffStats.totalChanges).toBe(360);
+  });
+
+  it('should stop after the configured number of pages', async () => {
+    server.use(
+      paginatedGitHubHandler(
+        '/repos/owner/repo/pulls/1/commits',
+        createCommits(250)
+      ),
+      paginatedGitHubHandler('/repos/owner/repo/pulls/1/files', createFiles(5))
+    );
+    const onWarning = vi.fn();
+    const client = new GitHubClient('ghp_test_token', {
+      maxPages: 2,
+      onWarning,
+    });
+
+    const prData = await client.extractPRData('owner', 'repo', 1);
+
+    expect(prData.commits).toHaveLength(200);
+    expect(prData.files).toHaveLength(5);
+    expect(onWarning).toHaveBeenCalledTimes(1);
+    expect(onWarning).toHaveBeenCalledWith(
+      'Listing commits of PR #1 stopped after 2 pages; raise max-api-pages to read the rest'
+    );
+  });
+
+  it('should take diff stats from the PR rather than the capped file list', async () => {
+    server.use(
+      http.get(`${GITHUB_API_BASE}/repos/owner/repo/pulls/1`, () =>
+        HttpResponse.json({
+          number: 1,
+          title: 'feat: huge change',
+          body: '',
+          additions: 9000,
+          deletions: 1000,
+          changed_files: 250,
+        })
+      ),
+      paginatedGitHubHandler('/repos/owner/repo/pulls/1/commits', []),
+      paginatedGitHubHandler(
+        '/repos/owner/repo/pulls/1/files',
+        createFiles(250)
+      )
+    );
+    const client = new GitHubClient('ghp_test_token', {
+      maxPages: 1,
+      onWarning: vi.fn(),
+    });
+
+    const prData = await client.extractPRData('owner', 'repo', 1);
+
+    expect(prData.files).toHaveLength(100);
+    expect(prData.diffStats).toEqual({
+      totalAdditions: 9000,
+      totalDeletions: 1000,
+      totalChanges: 10000,
+      filesChanged: 250,
+    });
+  });
+
+  it('should stop paging once the bot comment is found', async () => {
+    server.use(
+      paginatedGitHubHandler(
+        '/repos/owner/repo/issues/1/comments',
+        createComments(350, 150)
+      )
+    );
+    const requestedPages: string[] = [];
+    const onRequest = ({ request }: { request: { url: string } }): void => {
+      requestedPages.push(new URL(request.url).searchParams.get('page') ?? '1');
+    };
+    server.events.on('request:start', onRequest);
+    const client = new GitHubClient('ghp_test_token');
+
+    const comment = await client.findCommentByIdentifier(
+      'owner',
+      'repo',
+      1,
+      'ai-validator'
+    );
+    server.events.removeListener('request:start', onRequest);
+
+    expect(comment?.id).toBe(150);
+    expect(requestedPages).toEqual(['1', '2']);
+  });
+
+  it('should return null when no page holds the bot comment', async () => {
+    server.use(
+      paginatedGitHubHandler(
+        '/repos/owner/repo/issues/1/comments',
+        createComments(150)
+      )
+    );
+    const client = new GitHubClient('ghp_test_token');
+
+    const comment = await client.findCommentByIdentifier(
+      'owner',
+      'repo',
+      1,
+      'ai-validator'
+    );
+
+    expect(comment).toBeNull();
+  });
+});
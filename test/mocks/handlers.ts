@@ -10,12 +10,66 @@
  * - Handlers provide realistic response structures matching actual API contracts
  */
 
+import { URL } from 'url';
 import { http, HttpResponse } from 'msw';
 
 // GitHub API base URL
-const GITHUB_API_BASE = 'https://api.github.com';
+export const GITHUB_API_BASE = 'https://api.github.com';
 // Gemini AI API base URL
 const GEMINI_API_BASE = 'https://generativelanguage.googleapis.com';
+// OpenAI and Anthropic API base URLs
+export const OPENAI_API_BASE = 'https://api.openai.com/v1';
+export const ANTHROPIC_API_BASE = 'https://api.anthropic.com/v1';
+
+/**
+ * Verdict returned by the mocked OpenAI and Anthropic endpoints.
+ */
+export const mockProviderVerdict = {
+  issues: [
+    {
+      severity: 'warning',
+      category: 'description',
+      message: 'PR description is missing a "Why" section',
+    },
+  ],
+  improved_title: 'feat: add new feature',
+  improved_commits: 'feat(core): add new feature',
+  improved_description: '## What\n...\n## Why\n...',
+};
+
+/**
+ * Builds a GitHub list endpoint handler that serves `items` page by page.
+ *
+ * Mirrors the REST API's pagination contract: `page`/`per_page` query
+ * parameters and a Link header pointing at the next and last pages, which is
+ * what octokit's paginate helper follows.
+ */
+export const paginatedGitHubHandler = (
+  path: string,
+  items: unknown[]
+): ReturnType<typeof http.get> =>
+  http.get(`${GITHUB_API_BASE}${path}`, ({ request }) => {
+    const url = new URL(request.url);
+    const page = Number(url.searchParams.get('page') ?? '1');
+    const perPage = Number(url.searchParams.get('per_page') ?? '30');
+    const lastPage = Math.max(1, Math.ceil(items.length / perPage));
+
+    const pageUrl = (target: number): string => {
+      const next = new URL(url);
+      next.searchParams.set('page', String(target));
+      return next.toString();
+    };
+    const links = [];
+    if (page < lastPage) {
+      links.push(`<${pageUrl(page + 1)}>; rel="next"`);
+      links.push(`<${pageUrl(lastPage)}>; rel="last"`);
+    }
+
+    return HttpResponse.json(
+      items.slice((page - 1) * perPage, page * perPage),
+      links.length > 0 ? { headers: { link: links.join(', ') } } : undefined
+    );
+  });
 
 /**
  * Mock GitHub API responses.
@@ -325,6 +379,72 @@ export const geminiHandlers = [
   ),
 ];
 
+/**
+ * Mock OpenAI chat completions API.
+ *
+ * Unlike the Gemini SDK, the OpenAI and Anthropic clients use global fetch, so
+ * these handlers are exercised directly by unit tests.
+ */
+export const openaiHandlers = [
+  http.post(`${OPENAI_API_BASE}/chat/completions`, ({ request }) => {
+    if (request.headers.get('authorization') !== 'Bearer test-openai-key') {
+      return HttpResponse.json(
+        { error: { message: 'Incorrect API key provided' } },
+        { status: 401 }
+      );
+    }
+
+    return HttpResponse.json({
+      id: 'chatcmpl-123',
+      object: 'chat.completion',
+      choices: [
+        {
+          index: 0,
+          message: {
+            role: 'assistant',
+            content: JSON.stringify(mockProviderVerdict),
+          },
+          finish_reason: 'stop',
+        },
+      ],
+      usage: { prompt_tokens: 900, completion_tokens: 120, total_tokens: 1020 },
+    });
+  }),
+];
+
+/**
+ * Mock Anthropic Messages API answering with a forced tool call.
+ */
+export const anthropicHandlers = [
+  http.post(`${ANTHROPIC_API_BASE}/messages`, ({ request }) => {
+    if (request.headers.get('x-api-key') !== 'test-anthropic-key') {
+      return HttpResponse.json(
+        {
+          type: 'error',
+          error: { type: 'authentication_error', message: 'invalid x-api-key' },
+        },
+        { status: 401 }
+      );
+    }
+
+    return HttpResponse.json({
+      id: 'msg_123',
+      type: 'message',
+      role: 'assistant',
+      content: [
+        {
+          type: 'tool_use',
+          id: 'toolu_123',
+          name: 'report_validation',
+          input: mockProviderVerdict,
+        },
+      ],
+      stop_reason: 'tool_use',
+      usage: { input_tokens: 800, output_tokens: 150 },
+    });
+  }),
+];
+
 /**
  * Error scenario handlers for testing resilience.
  *
@@ -384,4 +504,9 @@ export const errorHandlers = [
 ];
 
 // Default handlers for normal operation
-export const handlers = [...githubHandlers, ...geminiHandlers];
+export const handlers = [
+  ...githubHandlers,
+  ...geminiHandlers,
+  ...openaiHandlers,
+  ...anthropicHandlers,
+];
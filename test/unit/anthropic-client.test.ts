@@ -0,0 +1,148 @@
+import { describe, it, expect } from 'vitest';
+import { http, HttpResponse } from 'msw';
+import { server } from '../mocks/server';
+import { ANTHROPIC_API_BASE, mockProviderVerdict } from '../mocks/handlers';
+import { AnthropicClient } from '../../src/ai/anthropic-client';
+
+/**
+ * Anthropic Client Test Suite
+ *
+ * Requests go through global fetch and are answered by the shared MSW server.
+ */
+
+describe('AnthropicClient', () => {
+  describe('initialization', () => {
+    it('should default to claude-3-5-haiku-latest', () => {
+      const client = new AnthropicClient('test-anthropic-key');
+
+      expect(client.name).toBe('anthropic');
+      expect(client.model).toBe('claude-3-5-haiku-latest');
+    });
+
+    it('should throw error with empty API key', () => {
+      expect(() => new AnthropicClient('')).toThrow('API key is required');
+    });
+  });
+
+  describe('content validation', () => {
+    it('should read the verdict from the forced tool call', async () => {
+      const client = new AnthropicClient('test-anthropic-key');
+
+      const result = await client.validateContent('Test prompt');
+
+      expect(result).toEqual({
+        ...mockProviderVerdict,
+        status: 'WARNINGS',
+        provider: 'anthropic',
+        model: 'claude-3-5-haiku-latest',
+        tokenUsage: {
+          promptTokens: 800,
+          completionTokens: 150,
+          totalTokens: 950,
+        },
+      });
+    });
+
+    it('should force the report_validation tool', async () => {
+      let body: Record<string, unknown> = {};
+      let version: string | null = null;
+      server.use(
+        http.post(`${ANTHROPIC_API_BASE}/messages`, async ({ request }) => {
+          body = (await request.json()) as Record<string, unknown>;
+          version = request.headers.get('anthropic-version');
+          return HttpResponse.json({
+            content: [
+              {
+                type: 'tool_use',
+                name: 'report_validation',
+                input: mockProviderVerdict,
+              },
+            ],
+          });
+        })
+      );
+      const client = new AnthropicClient(
+        'test-anthropic-key',
+        'claude-sonnet-4-0'
+      );
+
+      await client.validateContent('Test prompt');
+
+      expect(version).toBe('2023-06-01');
+      expect(body['model']).toBe('claude-sonnet-4-0');
+      expect(body['tool_choice']).toEqual({
+        type: 'tool',
+        name: 'report_validation',
+      });
+    });
+
+    it('should fall back to a JSON text answer', async () => {
+      server.use(
+        http.post(`${ANTHROPIC_API_BASE}/messages`, () =>
+          HttpResponse.json({
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({ ...mockProviderVerdict, issues: [] }),
+              },
+            ],
+          })
+        )
+      );
+      const client = new AnthropicClient('test-anthropic-key');
+
+      const result = await client.validateContent('Test prompt');
+
+      expect(result.status).toBe('PASS');
+    });
+
+    it('should treat unknown severities as errors', async () => {
+      server.use(
+        http.post(`${ANTHROPIC_API_BASE}/messages`, () =>
+          HttpResponse.json({
+            content: [
+              {
+                type: 'tool_use',
+                name: 'report_validation',
+                input: {
+                  status: 'PASS',
+                  issues: [
+                    {
+                      severity: 'MAYBE',
+                      category: 'title',
+                      message: 'unclear',
+                    },
+                  ],
+                },
+              },
+            ],
+          })
+        )
+      );
+      const client = new AnthropicClient('test-anthropic-key');
+
+      const result = await client.validateContent('Test prompt');
+
+      expect(result.status).toBe('FAIL');
+      expect(result.issues).toEqual([
+        { severity: 'error', category: 'title', message: 'unclear' },
+      ]);
+      expect(result.improved_title).toBe('');
+    });
+
+    it('should return fallback result when the API rejects the key', async () => {
+      const client = new AnthropicClient('wrong-key');
+
+      const result = await client.validateContent('Test prompt');
+
+      expect(result.status).toBe('ERROR');
+      expect(result.issues).toEqual([
+        {
+          severity: 'error',
+          category: 'metadata',
+          message: 'AI validation unavailable - please review manually',
+        },
+      ]);
+    });
+  });
+});
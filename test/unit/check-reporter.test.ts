@@ -0,0 +1,259 @@
+/**
+ * Check Run Reporter Tests
+ *
+ * Verifies how validation reports are mapped onto check run conclusions,
+ * titles and annotations. The GitHub client is injected as a plain mock.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { CheckRunReporter } from '../../src/core/check-reporter';
+import type { GitHubClient } from '../../src/github/client';
+import type { ValidationReport } from '../../src/core/validator';
+import type { ValidationIssue } from '../../src/ai/provider';
+
+describe('CheckRunReporter', () => {
+  let mockGitHubClient: GitHubClient;
+
+  const issue = (
+    message: string,
+    overrides: Partial<ValidationIssue> = {}
+  ): ValidationIssue => ({
+    severity: 'error',
+    category: 'metadata',
+    message,
+    ...overrides,
+  });
+
+  const baseReport: ValidationReport = {
+    status: 'PASS',
+    issues: [],
+    improved_title: '',
+    improved_commits: '',
+    improved_description: '',
+  };
+
+  beforeEach(() => {
+    mockGitHubClient = {
+      createCheckRun: vi.fn().mockResolvedValue({
+        id: 1,
+        html_url: 'https://github.com/owner/repo/runs/1',
+        conclusion: 'success',
+      }),
+    } as unknown as GitHubClient;
+  });
+
+  const createReporter = (): CheckRunReporter =>
+    new CheckRunReporter(mockGitHubClient, {
+      name: 'ai-validator',
+      annotationPath: 'CONTRIBUTING.md',
+    });
+
+  it('should create a successful check run for passing PRs', async () => {
+    const result = await createReporter().report(
+      'owner',
+      'repo',
+      'headsha',
+      baseReport,
+      '## Results'
+    );
+
+    expect(result.html_url).toBe('https://github.com/owner/repo/runs/1');
+    expect(mockGitHubClient.createCheckRun).toHaveBeenCalledWith(
+      'owner',
+      'repo',
+      {
+        name: 'ai-validator',
+        headSha: 'headsha',
+        conclusion: 'success',
+        title: 'Meets contribution guidelines',
+        summary: '## Results',
+        annotations: [],
+      }
+    );
+  });
+
+  it('should report an AI outage as neutral without annotations', async () => {
+    await createReporter().report(
+      'owner',
+      'repo',
+      'headsha',
+      {
+        ...baseReport,
+        status: 'ERROR',
+        issues: [issue('AI validation unavailable - please review manually')],
+      },
+      '## Results'
+    );
+
+    const [, , params] = vi.mocked(mockGitHubClient.createCheckRun).mock
+      .calls[0]!;
+    expect(params.conclusion).toBe('neutral');
+    expect(params.title).toBe('Could not validate: AI service unavailable');
+    expect(params.annotations).toEqual([]);
+  });
+
+  it('should annotate commit rule findings of an ERROR report', async () => {
+    await createReporter().report(
+      'owner',
+      'repo',
+      'headsha',
+      {
+        ...baseReport,
+        status: 'ERROR',
+        issues: [
+          issue('Type `feature` is not allowed', {
+            category: 'commits',
+            target: 'abc1234def5678',
+          }),
+          issue('AI validation unavailable - please review manually'),
+        ],
+      },
+      '## Results'
+    );
+
+    const [, , params] = vi.mocked(mockGitHubClient.createCheckRun).mock
+      .calls[0]!;
+    expect(params.conclusion).toBe('neutral');
+    expect(params.annotations).toEqual([
+      expect.objectContaining({
+        annotation_level: 'failure',
+        message: 'Commit abc1234: Type `feature` is not allowed',
+      }),
+    ]);
+  });
+
+  it('should title timed-out runs as timeouts', async () => {
+    await createReporter().report(
+      'owner',
+      'repo',
+      'headsha',
+      {
+        ...baseReport,
+        status: 'ERROR',
+        issues: [
+          issue(
+            'Validation timed out after 120 seconds while waiting for the AI response'
+          ),
+        ],
+        skipped: true,
+        reason: 'timeout',
+      },
+      '## Results'
+    );
+
+    const [, , params] = vi.mocked(mockGitHubClient.createCheckRun).mock
+      .calls[0]!;
+    expect(params.conclusion).toBe('neutral');
+    expect(params.title).toBe('Could not validate: timed out');
+  });
+
+  it('should report failures with one annotation per issue at its severity', async () => {
+    await createReporter().report(
+      'owner',
+      'repo',
+      'headsha',
+      {
+        ...baseReport,
+        status: 'FAIL',
+        issues: [
+          issue('Use conventional commits', {
+            category: 'commits',
+            target: 'abc1234def5678',
+          }),
+          issue('Add a test plan', {
+            severity: 'suggestion',
+            category: 'description',
+          }),
+        ],
+      },
+      '## Results'
+    );
+
+    const [, , params] = vi.mocked(mockGitHubClient.createCheckRun).mock
+      .calls[0]!;
+    expect(params.conclusion).toBe('failure');
+    expect(params.title).toBe('Needs improvement: 1 blocking issue(s) found');
+    expect(params.annotations).toEqual([
+      {
+        path: 'CONTRIBUTING.md',
+        start_line: 1,
+        end_line: 1,
+        annotation_level: 'failure',
+        title: 'Contribution guidelines: Commits',
+        message: 'Commit abc1234: Use conventional commits',
+      },
+      {
+        path: 'CONTRIBUTING.md',
+        start_line: 1,
+        end_line: 1,
+        annotation_level: 'notice',
+        title: 'Contribution guidelines: Description',
+        message: 'Add a test plan',
+      },
+    ]);
+  });
+
+  it('should use a neutral conclusion and warning annotations for WARNINGS', async () => {
+    await createReporter().report(
+      'owner',
+      'repo',
+      'headsha',
+      {
+        ...baseReport,
+        status: 'WARNINGS',
+        issues: [issue('Consider a scope', { severity: 'warning' })],
+      },
+      '## Results'
+    );
+
+    const [, , params] = vi.mocked(mockGitHubClient.createCheckRun).mock
+      .calls[0]!;
+    expect(params.conclusion).toBe('neutral');
+    expect(params.title).toBe('Passed with 1 warning(s)');
+    expect(params.annotations?.[0]?.annotation_level).toBe('warning');
+  });
+
+  it('should mark skipped validations as skipped without annotations', async () => {
+    await createReporter().report(
+      'owner',
+      'repo',
+      'headsha',
+      {
+        ...baseReport,
+        issues: [
+          issue('Validation skipped for automated PR by dependabot[bot]', {
+            severity: 'suggestion',
+          }),
+        ],
+        skipped: true,
+      },
+      '## Results'
+    );
+
+    const [, , params] = vi.mocked(mockGitHubClient.createCheckRun).mock
+      .calls[0]!;
+    expect(params.conclusion).toBe('skipped');
+    expect(params.title).toBe('Validation skipped');
+    expect(params.annotations).toEqual([]);
+  });
+
+  it('should cap annotations at the API limit and truncate long summaries', async () => {
+    await createReporter().report(
+      'owner',
+      'repo',
+      'headsha',
+      {
+        ...baseReport,
+        status: 'FAIL',
+        issues: Array.from({ length: 60 }, (_, i) => issue(`Issue ${i}`)),
+      },
+      'x'.repeat(70000)
+    );
+
+    const [, , params] = vi.mocked(mockGitHubClient.createCheckRun).mock
+      .calls[0]!;
+    expect(params.annotations).toHaveLength(50);
+    expect(params.summary).toHaveLength(65535);
+    expect(params.summary.endsWith('...')).toBe(true);
+  });
+});
@@ -0,0 +1,211 @@
+/* eslint-disable security/detect-non-literal-fs-filename -- temp working tree paths */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { EXIT_CODES, USAGE, runCli } from '../../src/cli';
+import * as localGit from '../../src/cli/local-git';
+import type { PRData } from '../../src/github/client';
+
+/**
+ * CLI Test Suite
+ *
+ * Git access is mocked; the validator runs for real with the AI disabled, so
+ * verdicts come from the deterministic commit rules.
+ */
+
+vi.mock('../../src/cli/local-git', async importOriginal => ({
+  ...(await importOriginal<typeof localGit>()),
+  readLocalPRData: vi.fn(),
+  localRepository: vi.fn(() => ({ owner: 'local', repo: 'widgets' })),
+  detectGitHubRepository: vi.fn(() => undefined),
+}));
+
+const prDataWithCommit = (message: string): PRData => ({
+  number: 0,
+  title: 'feat: add widgets',
+  body: '',
+  commits: [
+    {
+      sha: 'abc123def4567890abc123def4567890abc123de',
+      message,
+      author: { name: 'Jane', email: 'jane@example.com', date: '' },
+    },
+  ],
+  files: [],
+  diffStats: {
+    totalAdditions: 0,
+    totalDeletions: 0,
+    totalChanges: 0,
+    filesChanged: 0,
+  },
+});
+
+describe('runCli', () => {
+  let cwd: string;
+  let stdout: string;
+  let stderr: string;
+
+  beforeEach(() => {
+    cwd = fs.mkdtempSync(path.join(os.tmpdir(), 'ai-validate-cli-'));
+    stdout = '';
+    stderr = '';
+    vi.spyOn(process.stdout, 'write').mockImplementation(chunk => {
+      stdout += String(chunk);
+      return true;
+    });
+    vi.spyOn(process.stderr, 'write').mockImplementation(chunk => {
+      stderr += String(chunk);
+      return true;
+    });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    fs.rmSync(cwd, { recursive: true, force: true });
+  });
+
+  it('should print usage for --help', async () => {
+    const code = await runCli(['--help'], {}, cwd);
+
+    expect(code).toBe(EXIT_CODES.success);
+    expect(stdout).toBe(USAGE);
+  });
+
+  it('should exit with 2 on invalid arguments', async () => {
+    const code = await runCli(['--format', 'xml'], {}, cwd);
+
+    expect(code).toBe(EXIT_CODES.error);
+    expect(stderr).toBe(
+      'ai-validate: Invalid --format "xml": must be one of markdown, json\n'
+    );
+    expect(localGit.readLocalPRData).not.toHaveBeenCalled();
+  });
+
+  it('should validate a local range and exit with 1 on FAIL', async () => {
+    vi.mocked(localGit.readLocalPRData).mockReturnValue(
+      prDataWithCommit('added widgets')
+    );
+
+    const code = await runCli(
+      [
+        'main..feature',
+        '--ai-provider',
+        'none',
+        '--title',
+        'feat: widgets',
+        '--format',
+        'json',
+      ],
+      {},
+      cwd
+    );
+
+    expect(code).toBe(EXIT_CODES.failed);
+    expect(localGit.readLocalPRData).toHaveBeenCalledWith('main..feature', {
+      cwd,
+      title: 'feat: widgets',
+    });
+    const report = JSON.parse(stdout);
+    expect(report.status).toBe('FAIL');
+    expect(report.issues[0]).toMatchObject({
+      severity: 'error',
+      category: 'commits',
+      target: 'abc123def4567890abc123def4567890abc123de',
+    });
+  });
+
+  it('should print markdown and exit with 0 when validation passes', async () => {
+    vi.mocked(localGit.readLocalPRData).mockReturnValue(
+      prDataWithCommit('feat: add widgets')
+    );
+
+    const code = await runCli(['--ai-provider', 'none'], {}, cwd);
+
+    expect(code).toBe(EXIT_CODES.success);
+    expect(localGit.readLocalPRData).toHaveBeenCalledWith('origin/main..HEAD', {
+      cwd,
+    });
+    expect(stdout).toContain('### Status: ✅ Passed');
+  });
+
+  it('should exit with 2 when the provider cannot be created', async () => {
+    const code = await runCli([], {}, cwd);
+
+    // The default Gemini provider needs GEMINI_API_KEY
+    expect(code).toBe(EXIT_CODES.error);
+    expect(stderr).toMatch(/^ai-validate: .*API key/i);
+    expect(localGit.readLocalPRData).not.toHaveBeenCalled();
+  });
+
+  it('should print the prompt for --dry-run without an API key', async () => {
+    vi.mocked(localGit.readLocalPRData).mockReturnValue(
+      prDataWithCommit('added widgets')
+    );
+
+    fs.writeFileSync(
+      path.join(cwd, 'CONTRIBUTING.md'),
+      '# Contributing\nUse conventional commits.'
+    );
+
+    const code = await runCli(['--dry-run'], {}, cwd);
+
+    expect(code).toBe(EXIT_CODES.success);
+    expect(stdout).toContain('- Title: feat: add widgets');
+    expect(stdout).toContain('Use conventional commits.');
+    expect(stdout).toContain('Return a JSON response');
+    expect(stderr).toMatch(/^Estimated prompt tokens: \d+\n$/);
+  });
+
+  it('should read settings from the configuration file in the working tree', async () => {
+    fs.mkdirSync(path.join(cwd, '.github'));
+    fs.writeFileSync(
+      path.join(cwd, '.github', 'ai-validator.yml'),
+      'ai-provider: none\ncommit-rules: none\n'
+    );
+    vi.mocked(localGit.readLocalPRData).mockReturnValue(
+      prDataWithCommit('added widgets')
+    );
+
+    const code = await runCli([], {}, cwd);
+
+    // Commit rules are off, so the bad message goes unnoticed
+    expect(code).toBe(EXIT_CODES.success);
+  });
+
+  it('should let flags override the configuration file', async () => {
+    fs.mkdirSync(path.join(cwd, '.github'));
+    fs.writeFileSync(
+      path.join(cwd, '.github', 'ai-validator.yml'),
+      'ai-provider: none\ncommit-rules: none\n'
+    );
+    vi.mocked(localGit.readLocalPRData).mockReturnValue(
+      prDataWithCommit('added widgets')
+    );
+
+    const code = await runCli(['--commit-rules', 'all'], {}, cwd);
+
+    expect(code).toBe(EXIT_CODES.failed);
+  });
+
+  it('should require a token to validate a pull request', async () => {
+    const code = await runCli(
+      ['--pr', '42', '--repo', 'acme/widgets', '--ai-provider', 'none'],
+      {},
+      cwd
+    );
+
+    expect(code).toBe(EXIT_CODES.error);
+    expect(stderr).toBe(
+      'ai-validate: --pr requires GITHUB_TOKEN or GH_TOKEN to be set\n'
+    );
+  });
+
+  it('should reject combining a range with --pr', async () => {
+    const code = await runCli(['main..HEAD', '--pr', '42'], {}, cwd);
+
+    expect(code).toBe(EXIT_CODES.error);
+    expect(stderr).toBe('ai-validate: A range cannot be combined with --pr\n');
+  });
+});
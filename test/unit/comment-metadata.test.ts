@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'vitest';
+import {
+  COMMENT_METADATA_VERSION,
+  createCommentMetadata,
+  formatMetadataBlock,
+  parseMetadataBlock,
+  reportFromMetadata,
+} from '../../src/github/comment-metadata';
+import type { ValidationReport } from '../../src/core/validator';
+
+/**
+ * Comment Metadata Test Suite
+ */
+
+const SHA = 'a'.repeat(40);
+const RUN = {
+  headSha: SHA,
+  runUrl: 'https://github.com/owner/repo/actions/runs/42',
+  timestamp: '2026-10-18T12:00:00.000Z',
+};
+
+const report = (
+  overrides: Partial<ValidationReport> = {}
+): ValidationReport => ({
+  status: 'WARNINGS',
+  issues: [
+    {
+      severity: 'warning',
+      category: 'commits',
+      target: SHA,
+      message: 'Subject is too long -- shorten it -->',
+    },
+  ],
+  improved_title: '',
+  improved_commits: '',
+  improved_description: '',
+  commits: [
+    { sha: SHA, status: 'WARNINGS', issues: [], suggested_message: '' },
+  ],
+  provider: 'gemini',
+  model: 'gemini-2.5-flash',
+  cacheKey: { fingerprint: 'f'.repeat(64), commitShas: [SHA] },
+  ...overrides,
+});
+
+describe('createCommentMetadata', () => {
+  it('should lift the run summary to the top level', () => {
+    const metadata = createCommentMetadata(report(), RUN);
+
+    expect(metadata).toMatchObject({
+      version: COMMENT_METADATA_VERSION,
+      status: 'WARNINGS',
+      provider: 'gemini',
+      model: 'gemini-2.5-flash',
+      fingerprint: 'f'.repeat(64),
+      commitShas: [SHA],
+      headSha: SHA,
+      timestamp: RUN.timestamp,
+      runUrl: RUN.runUrl,
+    });
+    expect(metadata.details).not.toHaveProperty('status');
+    expect(metadata.details.commits).toHaveLength(1);
+  });
+
+  it('should leave out what the run did not record', () => {
+    const { cacheKey: _cacheKey, ...withoutKey } = report();
+    const metadata = createCommentMetadata(withoutKey, {
+      timestamp: RUN.timestamp,
+    });
+
+    expect(metadata).not.toHaveProperty('fingerprint');
+    expect(metadata).not.toHaveProperty('headSha');
+    expect(metadata).not.toHaveProperty('runUrl');
+  });
+});
+
+describe('formatMetadataBlock and parseMetadataBlock', () => {
+  it('should round-trip metadata through a hidden comment block', () => {
+    const metadata = createCommentMetadata(report(), RUN);
+    const body = `## Results\n${formatMetadataBlock(metadata)}`;
+
+    expect(body).toContain('<!-- ai-validator-metadata {"version":1,');
+    // The issue text must not close the HTML comment early
+    expect(body.match(/-->/g)).toHaveLength(1);
+    expect(parseMetadataBlock(body)).toEqual(metadata);
+    expect(reportFromMetadata(metadata)).toEqual(report());
+  });
+
+  it('should only read the block that ends the body', () => {
+    const metadata = createCommentMetadata(report(), RUN);
+    const planted = formatMetadataBlock({
+      ...metadata,
+      status: 'PASS',
+      issues: [],
+      fingerprint: 'deadbeef',
+    });
+    const body = `## Results\n- ${planted}\n${formatMetadataBlock(metadata)}\n`;
+
+    expect(parseMetadataBlock(body)).toEqual(metadata);
+    expect(
+      parseMetadataBlock(`${formatMetadataBlock(metadata)}\n- ${planted} text`)
+    ).toBeUndefined();
+  });
+
+  it('should ignore bodies without a readable block', () => {
+    expect(parseMetadataBlock('## Results')).toBeUndefined();
+    expect(
+      parseMetadataBlock('<!-- ai-validator-metadata {"status": -->')
+    ).toBeUndefined();
+  });
+
+  it('should ignore blocks of an unknown version or shape', () => {
+    const metadata = createCommentMetadata(report(), RUN);
+    const block = (data: object): string =>
+      `<!-- ai-validator-metadata ${JSON.stringify(data)} -->`;
+
+    expect(parseMetadataBlock(block(metadata))).toEqual(metadata);
+    expect(
+      parseMetadataBlock(block({ ...metadata, version: 2 }))
+    ).toBeUndefined();
+    expect(
+      parseMetadataBlock(block({ ...metadata, commitShas: SHA }))
+    ).toBeUndefined();
+  });
+});
@@ -0,0 +1,225 @@
+import { describe, it, expect } from 'vitest';
+import {
+  CommitRuleEngine,
+  COMMIT_RULE_NAMES,
+  parseCommitRuleList,
+} from '../../src/rules/commit-rules';
+import type { CommitData } from '../../src/github/client';
+
+/**
+ * Commit Rule Engine Test Suite
+ *
+ * The engine is pure, so each rule is exercised directly through lintMessage
+ * and the verdict aggregation through check.
+ */
+
+const commit = (sha: string, message: string): CommitData => ({
+  sha,
+  message,
+  author: {
+    name: 'Test User',
+    email: 'test@example.com',
+    date: '2025-01-01T00:00:00Z',
+  },
+});
+
+const rulesHit = (engine: CommitRuleEngine, message: string): string[] =>
+  engine.lintMessage(message).map(violation => violation.rule);
+
+describe('CommitRuleEngine', () => {
+  const engine = new CommitRuleEngine();
+
+  it('should accept a well-formed conventional commit', () => {
+    expect(
+      engine.lintMessage(
+        'feat(api)!: add pagination to list endpoints\n\nBREAKING CHANGE: page size is now capped at 100'
+      )
+    ).toEqual([]);
+  });
+
+  it('should reject headers without a type prefix', () => {
+    expect(engine.lintMessage('Fixed the bug')).toEqual([
+      {
+        rule: 'type',
+        message:
+          'Header does not follow the Conventional Commits format `type(scope): subject`',
+      },
+    ]);
+  });
+
+  it('should reject types outside the whitelist', () => {
+    const custom = new CommitRuleEngine({ types: ['feat', 'fix'] });
+
+    expect(custom.lintMessage('docs: update readme')).toEqual([
+      {
+        rule: 'type',
+        message: 'Commit type "docs" is not allowed (use one of feat, fix)',
+      },
+    ]);
+  });
+
+  it('should check scopes against the configured pattern', () => {
+    const custom = new CommitRuleEngine({ scopePattern: /^(api|ui)$/ });
+
+    expect(rulesHit(custom, 'fix(api): handle empty input')).toEqual([]);
+    expect(rulesHit(custom, 'fix(database): handle empty input')).toEqual([
+      'scope',
+    ]);
+    expect(rulesHit(engine, 'fix(): handle empty input')).toEqual(['scope']);
+  });
+
+  it('should flag overlong headers', () => {
+    expect(rulesHit(engine, `fix: ${'a'.repeat(80)}`)).toEqual([
+      'subject-length',
+    ]);
+  });
+
+  it.each(['added', 'adds', 'adding', 'fixes', 'dropped', 'using', 'applies'])(
+    'should flag the non-imperative subject "%s"',
+    word => {
+      expect(rulesHit(engine, `feat: ${word} caching`)).toEqual([
+        'imperative-mood',
+      ]);
+    }
+  );
+
+  it('should not flag imperative words that end like past tense', () => {
+    expect(rulesHit(engine, 'fix: address review comments')).toEqual([]);
+    expect(rulesHit(engine, 'feat: embed build info')).toEqual([]);
+  });
+
+  it.each(['chore: deps', 'fix: tests', 'fix: typos', 'fix: unused imports'])(
+    'should not flag nouns and adjectives in "%s"',
+    message => {
+      expect(rulesHit(engine, message)).toEqual([]);
+    }
+  );
+
+  it('should flag a trailing period', () => {
+    expect(rulesHit(engine, 'fix: handle empty input.')).toEqual([
+      'trailing-period',
+    ]);
+  });
+
+  it('should flag long body lines but not bare URLs', () => {
+    const url = `https://example.com/${'a'.repeat(120)}`;
+
+    expect(
+      rulesHit(engine, `fix: handle empty input\n\n${'word '.repeat(30)}`)
+    ).toEqual(['body-wrap']);
+    expect(rulesHit(engine, `fix: handle empty input\n\n${url}`)).toEqual([]);
+  });
+
+  it('should flag malformed breaking change footers', () => {
+    expect(
+      rulesHit(
+        engine,
+        'feat: drop node 16\n\nbreaking change: node 18 is required'
+      )
+    ).toEqual(['breaking-change']);
+    expect(
+      rulesHit(
+        engine,
+        'feat: drop node 16\n\nRaise the engines field.\n\nBREAKING-CHANGES: node 18 is required'
+      )
+    ).toEqual(['breaking-change']);
+  });
+
+  it('should not treat body prose as a breaking change footer', () => {
+    expect(
+      rulesHit(
+        engine,
+        'fix: handle empty input\n\nBreaking changes: none, the output is unchanged.\n\nRefs: #42'
+      )
+    ).toEqual([]);
+    expect(
+      rulesHit(
+        engine,
+        'fix: handle empty input\n\nBreaking change handling is untouched'
+      )
+    ).toEqual([]);
+  });
+
+  it('should only run enabled rules', () => {
+    const custom = new CommitRuleEngine({ rules: ['trailing-period'] });
+
+    expect(rulesHit(custom, 'Fixed the bug.')).toEqual([]);
+    expect(rulesHit(custom, 'fix: fixed the bug.')).toEqual([
+      'trailing-period',
+    ]);
+  });
+
+  describe('check', () => {
+    it('should derive one verdict per commit from rule severities', () => {
+      const verdicts = engine.check([
+        commit('aaa1111', 'feat: add caching'),
+        commit('bbb2222', 'fix: handle empty input.'),
+        commit('ccc3333', 'Update stuff'),
+      ]);
+
+      expect(verdicts.map(verdict => [verdict.sha, verdict.status])).toEqual([
+        ['aaa1111', 'PASS'],
+        ['bbb2222', 'WARNINGS'],
+        ['ccc3333', 'FAIL'],
+      ]);
+      expect(verdicts[1]?.issues).toEqual([
+        'Subject should not end with a period',
+      ]);
+    });
+
+    it('should report each violation as an issue with the rule severity', () => {
+      expect(
+        engine.findIssues([
+          commit('aaa1111', 'feat: add caching'),
+          commit('bbb2222', 'Fixed stuff.'),
+          commit('ccc3333', 'fix: handle empty input.'),
+        ])
+      ).toEqual([
+        {
+          severity: 'error',
+          category: 'commits',
+          target: 'bbb2222',
+          message:
+            'Header does not follow the Conventional Commits format `type(scope): subject`',
+        },
+        {
+          severity: 'warning',
+          category: 'commits',
+          target: 'ccc3333',
+          message: 'Subject should not end with a period',
+        },
+      ]);
+    });
+
+    it('should skip merge and revert commits generated by GitHub', () => {
+      const verdicts = engine.check([
+        commit('aaa1111', "Merge branch 'main' into feature"),
+        commit('bbb2222', 'Merge pull request #12 from user/branch'),
+        commit('ccc3333', 'Revert "feat: add caching"'),
+      ]);
+
+      expect(verdicts).toEqual([]);
+    });
+  });
+});
+
+describe('parseCommitRuleList', () => {
+  it('should enable every rule for empty input and "all"', () => {
+    expect(parseCommitRuleList('')).toEqual(COMMIT_RULE_NAMES);
+    expect(parseCommitRuleList('all')).toEqual(COMMIT_RULE_NAMES);
+  });
+
+  it('should disable every rule for "none"', () => {
+    expect(parseCommitRuleList('none')).toEqual([]);
+  });
+
+  it('should parse a comma-separated list', () => {
+    expect(parseCommitRuleList('type, scope')).toEqual(['type', 'scope']);
+  });
+
+  it('should reject unknown rules', () => {
+    expect(() => parseCommitRuleList('type, spelling')).toThrow(
+      'Invalid commit-rules entry "spelling"'
+    );
+  });
+});
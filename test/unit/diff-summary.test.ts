@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import { summarizeChangedFiles } from '../../src/ai/diff-summary';
+import { estimateTokens } from '../../src/ai/tokens';
+import type { FileData } from '../../src/github/client';
+
+/**
+ * Changed Files Summary Test Suite
+ */
+
+const file = (
+  filename: string,
+  patch?: string,
+  overrides: Partial<FileData> = {}
+): FileData => ({
+  filename,
+  status: 'modified',
+  additions: 1,
+  deletions: 1,
+  changes: 2,
+  ...(patch !== undefined && { patch }),
+  ...overrides,
+});
+
+const longPatch = (lines: number): string =>
+  Array.from({ length: lines }, (_, i) => `+line ${i}`).join('\n');
+
+describe('summarizeChangedFiles', () => {
+  it('should list files with status and line counts followed by patches', () => {
+    const summary = summarizeChangedFiles([
+      file('src/cart.ts', '@@ -1 +1 @@\n-a\n+b'),
+      file('logo.png', undefined, {
+        status: 'added',
+        additions: 0,
+        deletions: 0,
+        changes: 0,
+      }),
+    ]);
+
+    expect(summary).toBe(
+      [
+        '- src/cart.ts (modified, +1/-1)',
+        '- logo.png (added, +0/-0)',
+        '',
+        'src/cart.ts:',
+        '```diff',
+        '@@ -1 +1 @@',
+        '-a',
+        '+b',
+        '```',
+      ].join('\n')
+    );
+  });
+
+  it('should say so when no files changed', () => {
+    expect(summarizeChangedFiles([])).toBe('No files changed');
+  });
+
+  it('should truncate patches to stay within the budget', () => {
+    const summary = summarizeChangedFiles(
+      [file('a.ts', longPatch(500)), file('b.ts', longPatch(500))],
+      1000
+    );
+
+    expect(estimateTokens(summary)).toBeLessThanOrEqual(1000);
+    expect(summary).toContain('a.ts:\n```diff\n+line 0');
+    expect(summary).toContain('b.ts:\n```diff\n+line 0');
+    expect(summary).toMatch(/\.\.\. \(\d+ more lines truncated\)/);
+  });
+
+  it('should hand unused budget of small patches to later files', () => {
+    const summary = summarizeChangedFiles(
+      [file('small.ts', '+tiny'), file('large.ts', longPatch(500))],
+      1000
+    );
+
+    const largeLines = summary.match(/^\+line \d+$/gm) ?? [];
+    // More than half the budget went to the large patch
+    expect(estimateTokens(largeLines.join('\n'))).toBeGreaterThan(500);
+  });
+
+  it('should cut the file list when it alone exceeds the budget', () => {
+    const files = Array.from({ length: 100 }, (_, i) =>
+      file(`src/file-${i}.ts`, '+x')
+    );
+
+    const summary = summarizeChangedFiles(files, 100);
+
+    expect(estimateTokens(summary)).toBeLessThanOrEqual(100);
+    expect(summary).toMatch(/- \.\.\. and \d+ more files/);
+    expect(summary).toContain('Patches of');
+  });
+});
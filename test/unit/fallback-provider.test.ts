@@ -0,0 +1,204 @@
+import { describe, it, expect, vi } from 'vitest';
+import { FallbackProvider } from '../../src/ai/fallback-provider';
+import { AIProviderError, toProviderError } from '../../src/ai/errors';
+import { parseProviderChain } from '../../src/ai/provider-factory';
+import type {
+  AIProvider,
+  AIProviderName,
+  AIValidationResult,
+} from '../../src/ai/provider';
+
+const verdict = (
+  provider: AIProviderName,
+  model: string
+): AIValidationResult => ({
+  status: 'PASS',
+  issues: [],
+  improved_title: '',
+  improved_commits: '',
+  improved_description: '',
+  provider,
+  model,
+});
+
+const createProvider = (
+  name: AIProviderName,
+  model: string,
+  outcome: AIValidationResult | Error
+): AIProvider => ({
+  name,
+  model,
+  generateValidationPrompt: vi.fn(),
+  requestValidation: vi.fn(() =>
+    outcome instanceof Error
+      ? Promise.reject(outcome)
+      : Promise.resolve(outcome)
+  ),
+  validateContent: vi.fn(),
+});
+
+describe('FallbackProvider', () => {
+  it('should answer with the primary provider when it succeeds', async () => {
+    const primary = createProvider(
+      'gemini',
+      'gemini-1.5-flash',
+      verdict('gemini', 'gemini-1.5-flash')
+    );
+    const secondary = createProvider(
+      'openai',
+      'gpt-4o-mini',
+      verdict('openai', 'gpt-4o-mini')
+    );
+    const chain = new FallbackProvider([primary, secondary]);
+
+    const result = await chain.validateContent('prompt');
+
+    expect(result.provider).toBe('gemini');
+    expect(result.fallbackFrom).toBeUndefined();
+    expect(secondary.requestValidation).not.toHaveBeenCalled();
+  });
+
+  it.each([
+    ['quota', new AIProviderError('HTTP 429', 'quota')],
+    ['timeout', new AIProviderError('aborted', 'timeout')],
+    ['invalid JSON', new SyntaxError('Unexpected token')],
+  ])(
+    'should fall back to the next provider on %s errors',
+    async (_label, error) => {
+      const primary = createProvider('gemini', 'gemini-1.5-flash', error);
+      const secondary = createProvider(
+        'anthropic',
+        'claude-3-5-haiku-latest',
+        verdict('anthropic', 'claude-3-5-haiku-latest')
+      );
+      const chain = new FallbackProvider([primary, secondary]);
+
+      const result = await chain.validateContent('prompt');
+
+      expect(result.provider).toBe('anthropic');
+      expect(result.model).toBe('claude-3-5-haiku-latest');
+      expect(result.fallbackFrom).toEqual(['gemini/gemini-1.5-flash']);
+    }
+  );
+
+  it('should stop the chain on non-retryable errors', async () => {
+    const primary = createProvider(
+      'openai',
+      'gpt-4o-mini',
+      new AIProviderError('OpenAI API returned HTTP 401', 'request')
+    );
+    const secondary = createProvider(
+      'gemini',
+      'gemini-1.5-flash',
+      verdict('gemini', 'gemini-1.5-flash')
+    );
+    const chain = new FallbackProvider([primary, secondary]);
+
+    await expect(chain.requestValidation('prompt')).rejects.toMatchObject({
+      kind: 'request',
+    });
+    expect(secondary.requestValidation).not.toHaveBeenCalled();
+  });
+
+  it('should not try further providers once the run is aborted', async () => {
+    const primary = createProvider(
+      'gemini',
+      'gemini-1.5-flash',
+      new AIProviderError('request aborted', 'timeout')
+    );
+    const secondary = createProvider(
+      'openai',
+      'gpt-4o-mini',
+      verdict('openai', 'gpt-4o-mini')
+    );
+    const chain = new FallbackProvider([primary, secondary]);
+    const signal = global.AbortSignal.abort();
+
+    await expect(
+      chain.requestValidation('prompt', { signal })
+    ).rejects.toMatchObject({ kind: 'timeout' });
+    expect(primary.requestValidation).toHaveBeenCalledWith('prompt', {
+      signal,
+    });
+    expect(secondary.requestValidation).not.toHaveBeenCalled();
+  });
+
+  it('should degrade to the unavailable result when every provider fails', async () => {
+    const chain = new FallbackProvider([
+      createProvider(
+        'gemini',
+        'gemini-1.5-flash',
+        new AIProviderError('quota exceeded', 'quota')
+      ),
+      createProvider(
+        'openai',
+        'gpt-4o-mini',
+        new AIProviderError('HTTP 504', 'timeout')
+      ),
+    ]);
+
+    const result = await chain.validateContent('prompt');
+
+    expect(result.status).toBe('ERROR');
+    expect(result.issues).toEqual([
+      {
+        severity: 'error',
+        category: 'metadata',
+        message: 'AI validation unavailable - please review manually',
+      },
+    ]);
+    expect(result.provider).toBe('gemini');
+  });
+
+  it('should reject an empty chain', () => {
+    expect(() => new FallbackProvider([])).toThrow(
+      'At least one AI provider is required'
+    );
+  });
+});
+
+describe('toProviderError', () => {
+  it('should classify SDK errors by HTTP status', () => {
+    const error = Object.assign(new Error('[429 Too Many Requests]'), {
+      status: 429,
+    });
+
+    expect(toProviderError(error).kind).toBe('quota');
+  });
+
+  it('should classify aborted requests as timeouts', () => {
+    const error = new Error('The operation was aborted');
+    error.name = 'AbortError';
+
+    expect(toProviderError(error).kind).toBe('timeout');
+  });
+
+  it('should treat unknown errors as non-retryable request errors', () => {
+    const error = toProviderError(new Error('API key not valid'));
+
+    expect(error.kind).toBe('request');
+    expect(error.retryable).toBe(false);
+  });
+});
+
+describe('parseProviderChain', () => {
+  it('should parse providers with optional models', () => {
+    expect(
+      parseProviderChain('openai:gpt-4o, anthropic\ngemini:gemini-2.5-flash')
+    ).toEqual([
+      { provider: 'openai', model: 'gpt-4o' },
+      { provider: 'anthropic' },
+      { provider: 'gemini', model: 'gemini-2.5-flash' },
+    ]);
+  });
+
+  it('should return an empty chain for empty input', () => {
+    expect(parseProviderChain('')).toEqual([]);
+  });
+
+  it('should reject unknown providers', () => {
+    expect(() => parseProviderChain('openai, mistral:large')).toThrow(
+      'Invalid ai-fallback entry "mistral:large": provider must be one of gemini, openai, anthropic'
+    );
+  });
+});
@@ -10,6 +10,17 @@ import {
   ResultFormatter,
   type ValidationResult,
 } from '../../src/core/formatter';
+import type { ValidationIssue } from '../../src/ai/provider';
+
+const issue = (
+  message: string,
+  overrides: Partial<ValidationIssue> = {}
+): ValidationIssue => ({
+  severity: 'error',
+  category: 'metadata',
+  message,
+  ...overrides,
+});
 
 describe('ResultFormatter', () => {
   describe('structured format validation', () => {
@@ -18,8 +29,12 @@ describe('ResultFormatter', () => {
       const validationResult: ValidationResult = {
         status: 'FAIL',
         issues: [
-          "Commit message doesn't follow conventional format",
-          'PR description lacks test plan section',
+          issue("Commit message doesn't follow conventional format", {
+            category: 'commits',
+          }),
+          issue('PR description lacks test plan section', {
+            category: 'description',
+          }),
         ],
         improved_title: 'feat(validator): add structured validation output',
         improved_commits:
@@ -37,9 +52,11 @@ describe('ResultFormatter', () => {
       );
       expect(markdown).toContain('### 📋 Issues Found:');
       expect(markdown).toContain(
-        "- Commit message doesn't follow conventional format"
+        "- **Commits**: Commit message doesn't follow conventional format"
+      );
+      expect(markdown).toContain(
+        '- **Description**: PR description lacks test plan section'
       );
-      expect(markdown).toContain('- PR description lacks test plan section');
       expect(markdown).toContain('### ✨ Required Improvements:');
       expect(markdown).toContain('#### 📝 Suggested PR Title:');
       expect(markdown).toContain(
@@ -79,7 +96,12 @@ describe('ResultFormatter', () => {
       const formatter = new ResultFormatter();
       const validationResult: ValidationResult = {
         status: 'WARNINGS',
-        issues: ['Consider adding more detailed commit messages'],
+        issues: [
+          issue('Consider adding more detailed commit messages', {
+            severity: 'warning',
+            category: 'commits',
+          }),
+        ],
         improved_title: '',
         improved_commits:
           'feat(validator): add structured validation output\n\nImplement structured JSON format with detailed explanation of why this change improves the developer experience.',
@@ -92,8 +114,9 @@ describe('ResultFormatter', () => {
       expect(markdown).toContain(
         'Your contribution looks good, but consider these suggestions for improvement.'
       );
+      expect(markdown).toContain('#### ⚠️ Warnings');
       expect(markdown).toContain(
-        '- Consider adding more detailed commit messages'
+        '- **Commits**: Consider adding more detailed commit messages'
       );
       expect(markdown).toContain('#### 📋 Suggested Commit Message:');
       expect(markdown).not.toContain('#### 📝 Suggested PR Title:');
@@ -120,12 +143,290 @@ describe('ResultFormatter', () => {
       expect(markdown).toContain('UTC_');
     });
 
+    it('should name the model that judged the PR in the footer', () => {
+      const formatter = new ResultFormatter();
+      const validationResult: ValidationResult = {
+        status: 'PASS',
+        issues: [],
+        improved_title: '',
+        improved_commits: '',
+        improved_description: '',
+        model: 'gemini-1.5-pro',
+      };
+
+      const markdown = formatter.formatToMarkdown(validationResult);
+
+      expect(markdown).toContain('_Validated by `gemini-1.5-pro`_');
+    });
+
+    it('should name the provider and the failed ones after a fallback', () => {
+      const formatter = new ResultFormatter();
+      const validationResult: ValidationResult = {
+        status: 'PASS',
+        issues: [],
+        improved_title: '',
+        improved_commits: '',
+        improved_description: '',
+        model: 'gpt-4o-mini',
+        provider: 'openai',
+        fallbackFrom: ['gemini/gemini-1.5-flash'],
+      };
+
+      const markdown = formatter.formatToMarkdown(validationResult);
+
+      expect(markdown).toContain(
+        '_Validated by `gpt-4o-mini` via openai (fallback after `gemini/gemini-1.5-flash` failed)_'
+      );
+    });
+
+    it('should say when the result was reused from the previous run', () => {
+      const formatter = new ResultFormatter();
+      const validationResult: ValidationResult = {
+        status: 'PASS',
+        issues: [],
+        improved_title: '',
+        improved_commits: '',
+        improved_description: '',
+        model: 'gemini-2.5-flash',
+        cached: true,
+      };
+
+      const markdown = formatter.formatToMarkdown(validationResult);
+
+      expect(markdown).toContain(
+        '_Validated by `gemini-2.5-flash`_\n_Result reused from the previous run: the title, description, commits and guidelines are unchanged_\n'
+      );
+    });
+
+    it('should omit the model line when the model is unknown', () => {
+      const formatter = new ResultFormatter();
+      const validationResult: ValidationResult = {
+        status: 'PASS',
+        issues: [],
+        improved_title: '',
+        improved_commits: '',
+        improved_description: '',
+      };
+
+      const markdown = formatter.formatToMarkdown(validationResult);
+
+      expect(markdown).not.toContain('Validated by');
+    });
+
+    it('should use a dedicated template for oversized PRs', () => {
+      const formatter = new ResultFormatter();
+      const validationResult: ValidationResult = {
+        status: 'FAIL',
+        issues: [
+          issue('PR changes 20000 lines, exceeding the limit of 5000 lines'),
+        ],
+        improved_title: '',
+        improved_commits: '',
+        improved_description: '',
+        reason: 'pr-too-large',
+      };
+
+      const markdown = formatter.formatToMarkdown(validationResult);
+
+      expect(markdown).toContain('### Status: 📏 PR Too Large');
+      expect(markdown).toContain(
+        '- PR changes 20000 lines, exceeding the limit of 5000 lines'
+      );
+      expect(markdown).toContain('`max-pr-size`');
+      expect(markdown).not.toContain('### 📋 Issues Found:');
+      expect(markdown).toContain('_Last updated:');
+    });
+
+    it('should use a could-not-validate template for ERROR reports', () => {
+      const formatter = new ResultFormatter();
+      const validationResult: ValidationResult = {
+        status: 'ERROR',
+        issues: [issue('AI validation unavailable - please review manually')],
+        improved_title: '',
+        improved_commits: '',
+        improved_description: '',
+        model: 'gemini-1.5-flash',
+      };
+
+      const markdown = formatter.formatToMarkdown(validationResult);
+
+      expect(markdown).toContain('### Status: 🚫 Could Not Validate');
+      expect(markdown).toContain('not a problem with your contribution');
+      expect(markdown).toContain(
+        '- AI validation unavailable - please review manually'
+      );
+      expect(markdown).not.toContain('Needs Improvement');
+      expect(markdown).not.toContain('### 📋 Issues Found:');
+    });
+
+    it('should list commit rule findings separately in ERROR reports', () => {
+      const formatter = new ResultFormatter();
+      const sha = 'abc1234def5678';
+      const validationResult: ValidationResult = {
+        status: 'ERROR',
+        issues: [
+          issue('Type `feature` is not allowed', {
+            category: 'commits',
+            target: sha,
+          }),
+          issue('Subject should not end with a period', {
+            severity: 'warning',
+            category: 'commits',
+            target: sha,
+          }),
+          issue(
+            'Validation timed out after 120 seconds while waiting for the AI response'
+          ),
+        ],
+        improved_title: '',
+        improved_commits: '',
+        improved_description: '',
+        reason: 'timeout',
+        commits: [
+          {
+            sha,
+            status: 'FAIL',
+            issues: ['Type `feature` is not allowed'],
+            suggested_message: '',
+          },
+        ],
+      };
+
+      const markdown = formatter.formatToMarkdown(validationResult);
+      const [notice, findings] = markdown.split('### 📋 Commit Rule Findings:');
+
+      expect(notice).toContain(
+        '- Validation timed out after 120 seconds while waiting for the AI response'
+      );
+      expect(notice).not.toContain('is not allowed');
+      expect(findings).toContain(
+        '#### ❌ Errors\n\n- **Commits** (`abc1234`): Type `feature` is not allowed'
+      );
+      expect(findings).toContain(
+        '#### ⚠️ Warnings\n\n- **Commits** (`abc1234`): Subject should not end with a period'
+      );
+      expect(findings).toContain('### 🔍 Commit Review:');
+      expect(findings).toContain('| `abc1234` | ❌ Fail |');
+    });
+
+    it('should render per-commit verdicts as a table keyed by short SHA', () => {
+      const formatter = new ResultFormatter();
+      const validationResult: ValidationResult = {
+        status: 'FAIL',
+        issues: [issue('One commit is not conventional')],
+        improved_title: '',
+        improved_commits: '',
+        improved_description: '',
+        commits: [
+          {
+            sha: 'abc1234def5678',
+            status: 'FAIL',
+            issues: ['Missing type prefix', 'Subject uses | pipes'],
+            suggested_message: 'fix: handle empty input\n\nCloses #12',
+          },
+          {
+            sha: '9876543fedcba0',
+            status: 'PASS',
+            issues: [],
+            suggested_message: '',
+          },
+        ],
+      };
+
+      const markdown = formatter.formatToMarkdown(validationResult);
+
+      expect(markdown).toContain('### 🔍 Commit Review:');
+      expect(markdown).toContain(
+        '| `abc1234` | ❌ Fail | Missing type prefix<br>Subject uses \\| pipes | fix: handle empty input<br><br>Closes #12 |'
+      );
+      expect(markdown).toContain('| `9876543` | ✅ Pass | — | — |');
+    });
+
+    it('should omit the commit table without per-commit verdicts', () => {
+      const formatter = new ResultFormatter();
+      const validationResult: ValidationResult = {
+        status: 'PASS',
+        issues: [],
+        improved_title: '',
+        improved_commits: '',
+        improved_description: '',
+      };
+
+      const markdown = formatter.formatToMarkdown(validationResult);
+
+      expect(markdown).not.toContain('Commit Review');
+    });
+
+    it('should note which sections the AI only saw in part', () => {
+      const formatter = new ResultFormatter();
+      const validationResult: ValidationResult = {
+        status: 'PASS',
+        issues: [],
+        improved_title: '',
+        improved_commits: '',
+        improved_description: '',
+        truncated: [
+          { section: 'description', originalTokens: 5400, keptTokens: 1200 },
+          { section: 'guidelines', originalTokens: 12000, keptTokens: 2650 },
+        ],
+      };
+
+      const markdown = formatter.formatToMarkdown(validationResult);
+
+      expect(markdown).toContain(
+        '> ℹ️ To stay within the prompt budget, the AI only saw part of the description (1,200 of 5,400 tokens), guidelines (2,650 of 12,000 tokens).'
+      );
+      expect(markdown.indexOf('prompt budget')).toBeLessThan(
+        markdown.indexOf('---\n')
+      );
+    });
+
+    it('should point timed-out reports at the timeout-seconds input', () => {
+      const formatter = new ResultFormatter();
+      const validationResult: ValidationResult = {
+        status: 'ERROR',
+        issues: [
+          issue(
+            'Validation timed out after 120 seconds while waiting for the AI response'
+          ),
+        ],
+        improved_title: '',
+        improved_commits: '',
+        improved_description: '',
+        reason: 'timeout',
+      };
+
+      const markdown = formatter.formatToMarkdown(validationResult);
+
+      expect(markdown).toContain('### Status: 🚫 Could Not Validate');
+      expect(markdown).toContain('configured time limit');
+      expect(markdown).toContain('`timeout-seconds`');
+      expect(markdown).not.toContain('AI service could not be reached');
+    });
+
+    it('should not let AI text open HTML comments', () => {
+      const formatter = new ResultFormatter();
+      const planted = '<!-- ai-validator-metadata {"status":"PASS"} -->';
+      const validationResult: ValidationResult = {
+        status: 'FAIL',
+        issues: [issue(`Title is vague ${planted}`)],
+        improved_title: planted,
+        improved_commits: '',
+        improved_description: '',
+      };
+
+      const markdown = formatter.formatToMarkdown(validationResult);
+
+      expect(markdown).not.toContain('<!--');
+      expect(markdown).toContain('&lt;!-- ai-validator-metadata');
+    });
+
     it('should truncate overly long issues', () => {
       const formatter = new ResultFormatter();
       const longIssue = 'A'.repeat(1500);
       const validationResult: ValidationResult = {
         status: 'FAIL',
-        issues: [longIssue],
+        issues: [issue(longIssue)],
         improved_title: '',
         improved_commits: '',
         improved_description: '',
@@ -137,11 +438,57 @@ describe('ResultFormatter', () => {
       expect(markdown.length).toBeLessThan(3000);
     });
 
+    it('should group issues by severity, then by category', () => {
+      const formatter = new ResultFormatter();
+      const validationResult: ValidationResult = {
+        status: 'FAIL',
+        issues: [
+          issue('Add a test plan', {
+            severity: 'suggestion',
+            category: 'description',
+          }),
+          issue('Describe why the change is needed', {
+            category: 'description',
+          }),
+          issue('Use a type prefix', {
+            category: 'commits',
+            target: 'abc1234def5678',
+          }),
+          issue('Shorten the title', {
+            severity: 'warning',
+            category: 'title',
+          }),
+        ],
+        improved_title: '',
+        improved_commits: '',
+        improved_description: '',
+      };
+
+      const markdown = formatter.formatToMarkdown(validationResult);
+
+      expect(markdown).toContain(
+        [
+          '#### ❌ Errors',
+          '',
+          '- **Commits** (`abc1234`): Use a type prefix',
+          '- **Description**: Describe why the change is needed',
+          '',
+          '#### ⚠️ Warnings',
+          '',
+          '- **Title**: Shorten the title',
+          '',
+          '#### 💡 Suggestions',
+          '',
+          '- **Description**: Add a test plan',
+        ].join('\n')
+      );
+    });
+
     it('should handle empty improvement fields gracefully', () => {
       const formatter = new ResultFormatter();
       const validationResult: ValidationResult = {
         status: 'FAIL',
-        issues: ['Some issue'],
+        issues: [issue('Some issue')],
         improved_title: '',
         improved_commits: '',
         improved_description: '',
@@ -159,7 +506,7 @@ describe('ResultFormatter', () => {
       const formatter = new ResultFormatter();
       const validationResult: ValidationResult = {
         status: 'WARNINGS',
-        issues: ['Minor issue'],
+        issues: [issue('Minor issue', { severity: 'warning' })],
         improved_title: 'Better title',
         improved_commits: '',
         improved_description: 'Better description',
@@ -206,7 +553,12 @@ describe('ResultFormatter', () => {
       const formatter = new ResultFormatter();
       const validationResult: ValidationResult = {
         status: 'WARNINGS',
-        issues: ['Consider adding more detailed commit messages'],
+        issues: [
+          issue('Consider adding more detailed commit messages', {
+            severity: 'warning',
+            category: 'commits',
+          }),
+        ],
         improved_title: '',
         improved_commits:
           'feat(validator): add structured validation output\n\nImplement structured JSON format with detailed explanation.',
@@ -228,7 +580,7 @@ describe('ResultFormatter', () => {
       const formatter = new ResultFormatter();
       const validationResult: ValidationResult = {
         status: 'FAIL',
-        issues: ['Commit message does not follow conventional format'],
+        issues: [issue('Commit message does not follow conventional format')],
         improved_title: 'feat(validator): add structured validation output',
         improved_commits:
           'feat(validator): add structured validation output\n\nImplement structured JSON format for better CI/CD integration.',
@@ -247,4 +599,101 @@ describe('ResultFormatter', () => {
       expect(markdown).not.toContain('### 💡 Optional Enhancements:');
     });
   });
+
+  describe('comment templates', () => {
+    it('should replace the default header and footer', () => {
+      const formatter = new ResultFormatter({
+        header: '## Contribution Check',
+        footer: '*See our guidelines*',
+      });
+
+      const markdown = formatter.formatToMarkdown({
+        status: 'PASS',
+        issues: [],
+        improved_title: '',
+        improved_commits: '',
+        improved_description: '',
+      });
+
+      expect(markdown.startsWith('## Contribution Check\n')).toBe(true);
+      expect(markdown).toContain('---\n*See our guidelines*\n');
+      expect(markdown).not.toContain('## 🤖 AI Validation Results');
+      expect(markdown).not.toContain(
+        'contribution guidelines](CONTRIBUTING.md)'
+      );
+    });
+  });
+
+  describe('changes since the last run', () => {
+    const result = (
+      issues: ValidationIssue[],
+      overrides: Partial<ValidationResult> = {}
+    ): ValidationResult => ({
+      status: issues.length ? 'FAIL' : 'PASS',
+      issues,
+      improved_title: '',
+      improved_commits: '',
+      improved_description: '',
+      ...overrides,
+    });
+
+    it('should list resolved and new issues', () => {
+      const markdown = new ResultFormatter().formatToMarkdown(
+        result([
+          issue('Explain why the change is needed', {
+            category: 'description',
+          }),
+          issue('Title is vague', { category: 'title' }),
+        ]),
+        result([
+          issue('title is  vague', { category: 'title' }),
+          issue('Subject exceeds 72 characters', {
+            category: 'commits',
+            target: 'a'.repeat(40),
+          }),
+        ])
+      );
+
+      expect(markdown).toContain(
+        '### 🔄 Since Last Run:\n\n#### ✅ Resolved since last run\n\n- **Commits** (`aaaaaaa`): Subject exceeds 72 characters\n\n#### 🆕 New issues\n\n- **Description**: Explain why the change is needed\n\n'
+      );
+    });
+
+    it('should match commit issues across rewritten SHAs', () => {
+      const markdown = new ResultFormatter().formatToMarkdown(
+        result([
+          issue('Use the imperative mood', {
+            category: 'commits',
+            target: 'b'.repeat(40),
+          }),
+        ]),
+        result([
+          issue('Use the imperative mood', {
+            category: 'commits',
+            target: 'a'.repeat(40),
+          }),
+        ])
+      );
+
+      expect(markdown).not.toContain('Since Last Run');
+    });
+
+    it('should not compare against results without a verdict', () => {
+      const formatter = new ResultFormatter();
+      const current = result([issue('Title is vague', { category: 'title' })]);
+
+      expect(
+        formatter.formatToMarkdown(
+          current,
+          result([issue('AI service unavailable')], { status: 'ERROR' })
+        )
+      ).not.toContain('Since Last Run');
+      expect(
+        formatter.formatToMarkdown(
+          current,
+          result([issue('PR is too large')], { reason: 'pr-too-large' })
+        )
+      ).not.toContain('Since Last Run');
+    });
+  });
 });
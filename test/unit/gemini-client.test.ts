@@ -69,6 +69,24 @@ describe('GeminiClient', () => {
     it('should throw error with empty API key', () => {
       expect(() => new GeminiClient('')).toThrow('API key is required');
     });
+
+    it('should default to gemini-1.5-flash', () => {
+      const client = new GeminiClient('valid-api-key');
+
+      expect(client.model).toBe('gemini-1.5-flash');
+    });
+
+    it('should accept a supported model', () => {
+      const client = new GeminiClient('valid-api-key', 'gemini-1.5-pro');
+
+      expect(client.model).toBe('gemini-1.5-pro');
+    });
+
+    it('should reject unknown models with the list of supported ones', () => {
+      expect(() => new GeminiClient('valid-api-key', 'gemini-ultra')).toThrow(
+        /Unsupported Gemini model "gemini-ultra"\. Supported models: gemini-1\.5-flash, .*gemini-1\.5-pro/
+      );
+    });
   });
 
   describe('prompt generation', () => {
@@ -113,6 +131,9 @@ describe('GeminiClient', () => {
       expect(prompt).toContain('Analyze this pull request');
       expect(prompt).toContain('Add new feature');
       expect(prompt).toContain('semantic commit conventions');
+      expect(prompt).toContain(
+        '- abc123: feat: add new feature (by Test User)'
+      );
     });
   });
 
@@ -131,6 +152,40 @@ describe('GeminiClient', () => {
       expect(response.improved_description).toBeDefined();
     });
 
+    it('should request and report the configured model', async () => {
+      const getGenerativeModel = vi.fn().mockReturnValue({
+        generateContent: vi.fn().mockResolvedValue({
+          response: {
+            text: () =>
+              '{"status": "PASS", "issues": [], "improved_title": "", "improved_commits": "", "improved_description": ""}',
+            usageMetadata: {},
+          },
+        }),
+      });
+      vi.doMock('@google/generative-ai', () => ({
+        GoogleGenerativeAI: vi
+          .fn()
+          .mockImplementation(() => ({ getGenerativeModel })),
+        SchemaType: {
+          OBJECT: 'object',
+          BOOLEAN: 'boolean',
+          ARRAY: 'array',
+          STRING: 'string',
+        },
+      }));
+      const { GeminiClient: TestGeminiClient } = await import(
+        '../../src/ai/gemini-client'
+      );
+      const client = new TestGeminiClient('api-key', 'gemini-2.5-pro');
+
+      const result = await client.validateContent('test prompt');
+
+      expect(getGenerativeModel).toHaveBeenCalledWith(
+        expect.objectContaining({ model: 'gemini-2.5-pro' })
+      );
+      expect(result.model).toBe('gemini-2.5-pro');
+    });
+
     it('should handle API errors gracefully', async () => {
       const client = new GeminiClient('valid-api-key');
 
@@ -269,7 +324,7 @@ Do NOT evaluate code changes, architecture, or implementation details.`;
 
       // If there are issues, they should be meaningful (not just generic)
       if (result.issues.length > 0) {
-        expect(result.issues.some(s => s.length > 10)).toBe(true); // Non-trivial issues
+        expect(result.issues.some(s => s.message.length > 10)).toBe(true); // Non-trivial issues
       }
     });
 
@@ -282,7 +337,13 @@ Do NOT evaluate code changes, architecture, or implementation details.`;
       const result = await client.validateContent(prompt);
 
       expect(result.status).toBe('FAIL');
-      expect(result.issues).toEqual(['Fix commit message format']);
+      expect(result.issues).toEqual([
+        {
+          severity: 'error',
+          category: 'commits',
+          message: 'Fix commit message format',
+        },
+      ]);
       expect(result.improved_title).toBe('');
       expect(result.improved_commits).toBe('');
       expect(result.improved_description).toBe('');
@@ -320,9 +381,13 @@ Do NOT evaluate code changes, architecture, or implementation details.`;
 
       const result = await client.validateContent('test prompt');
 
-      expect(result.status).toBe('FAIL');
+      expect(result.status).toBe('ERROR');
       expect(result.issues).toEqual([
-        'AI validation unavailable - please review manually',
+        {
+          severity: 'error',
+          category: 'metadata',
+          message: 'AI validation unavailable - please review manually',
+        },
       ]);
       expect(result.improved_title).toBe('');
       expect(result.improved_commits).toBe('');
@@ -393,6 +458,42 @@ Do NOT evaluate code changes, architecture, or implementation details.`;
       expect(prompt).toContain('Do NOT evaluate code changes');
     });
 
+    it('should include the changed files only for the text+diff scope', () => {
+      const client = new GeminiClient('valid-api-key');
+      const prData = {
+        number: 790,
+        title: 'fix(cart): round totals',
+        body: 'Fixes rounding in the cart',
+        commits: [],
+        files: [
+          {
+            filename: 'src/checkout/total.ts',
+            status: 'modified',
+            additions: 1,
+            deletions: 1,
+            changes: 2,
+            patch: '@@ -1 +1 @@\n-round(total)\n+round(total, 2)',
+          },
+        ],
+        diffStats: {
+          totalAdditions: 1,
+          totalDeletions: 1,
+          totalChanges: 2,
+          filesChanged: 1,
+        },
+      };
+
+      const prompt = client.generateValidationPrompt(prData, 'Guidelines', {
+        analysisScope: 'text+diff',
+      });
+
+      expect(prompt).toContain('**Changed Files:**');
+      expect(prompt).toContain('- src/checkout/total.ts (modified, +1/-1)');
+      expect(prompt).toContain('+round(total, 2)');
+      expect(prompt).toContain('whether the text matches the changed files');
+      expect(prompt).not.toContain('Validate ONLY the text format');
+    });
+
     it('should PASS well-formatted PR with proper conventional commits', async () => {
       const client = new GeminiClient('valid-api-key');
       const prData = {
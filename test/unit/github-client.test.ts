@@ -1,5 +1,6 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { GitHubClient } from '../../src/github/client';
+import type { CommentMetadata } from '../../src/github/comment-metadata';
 
 /**
  * GitHub Client Test Suite
@@ -16,10 +17,22 @@ const mockIssuesCreateComment = vi.fn();
 const mockIssuesListComments = vi.fn();
 const mockIssuesUpdateComment = vi.fn();
 const mockReposCreateCommitStatus = vi.fn();
+const mockReposGetContent = vi.fn();
+const mockChecksCreate = vi.fn();
 
-// Mock the @actions/github module
+// Mock the @actions/github module. paginate() hands the single mocked page to
+// the page callback, mirroring octokit's behaviour for a one-page listing;
+// multi-page behaviour is covered by the MSW-backed pagination tests
 vi.mock('@actions/github', () => ({
   getOctokit: vi.fn(() => ({
+    paginate: async (
+      method: (params: unknown) => Promise<{ data: unknown[] }>,
+      params: unknown,
+      mapFn?: (response: { data: unknown[] }, done: () => void) => unknown[]
+    ): Promise<unknown[]> => {
+      const response = await method(params);
+      return mapFn ? mapFn(response, () => undefined) : response.data;
+    },
     rest: {
       pulls: {
         get: mockPullsGet,
@@ -33,11 +46,27 @@ vi.mock('@actions/github', () => ({
       },
       repos: {
         createCommitStatus: mockReposCreateCommitStatus,
+        getContent: mockReposGetContent,
+      },
+      checks: {
+        create: mockChecksCreate,
       },
     },
   })),
 }));
 
+const METADATA: CommentMetadata = {
+  version: 1,
+  status: 'PASS',
+  issues: [],
+  timestamp: '2026-10-18T12:00:00.000Z',
+  details: {
+    improved_title: '',
+    improved_commits: '',
+    improved_description: '',
+  },
+};
+
 describe('GitHubClient', () => {
   beforeEach(() => {
     vi.clearAllMocks();
@@ -236,6 +265,7 @@ describe('GitHubClient', () => {
         owner: 'microsoft',
         repo: 'TypeScript',
         pull_number: 1,
+        per_page: 100,
       });
     });
 
@@ -291,6 +321,7 @@ describe('GitHubClient', () => {
         owner: 'microsoft',
         repo: 'TypeScript',
         pull_number: 1,
+        per_page: 100,
       });
     });
 
@@ -425,6 +456,7 @@ describe('GitHubClient', () => {
         owner: 'microsoft',
         repo: 'TypeScript',
         issue_number: 1,
+        per_page: 100,
       });
     });
 
@@ -461,6 +493,7 @@ describe('GitHubClient', () => {
         owner: 'microsoft',
         repo: 'TypeScript',
         issue_number: 1,
+        per_page: 100,
       });
     });
 
@@ -498,6 +531,68 @@ describe('GitHubClient', () => {
       });
     });
 
+    it('should append the metadata block to the comment', async () => {
+      const client = new GitHubClient('ghp_valid_token_123');
+      mockIssuesCreateComment.mockResolvedValue({
+        data: { id: 1, body: '', created_at: '', updated_at: '' },
+      });
+
+      await client.createComment('owner', 'repo', 1, 'Body', 'ai-validator', {
+        ...METADATA,
+      });
+
+      expect(mockIssuesCreateComment).toHaveBeenCalledWith(
+        expect.objectContaining({
+          body: `<!-- ai-validator -->\nBody\n<!-- ai-validator-metadata ${JSON.stringify(METADATA)} -->`,
+        })
+      );
+    });
+
+    it('should leave out metadata that would exceed the comment limit', async () => {
+      const client = new GitHubClient('ghp_valid_token_123');
+      mockIssuesUpdateComment.mockResolvedValue({
+        data: { id: 1, body: '', created_at: '', updated_at: '' },
+      });
+      const body = 'x'.repeat(65000);
+
+      await client.updateComment('owner', 'repo', 1, body, 'ai-validator', {
+        ...METADATA,
+        issues: Array.from({ length: 20 }, () => ({
+          severity: 'warning' as const,
+          category: 'description' as const,
+          message: 'Too vague',
+        })),
+      });
+
+      expect(mockIssuesUpdateComment).toHaveBeenCalledWith(
+        expect.objectContaining({ body: `<!-- ai-validator -->\n${body}` })
+      );
+    });
+
+    it('should only read metadata from comments written by a bot', () => {
+      const client = new GitHubClient('ghp_valid_token_123');
+      const comment = {
+        id: 1,
+        body: `<!-- ai-validator -->\nBody\n<!-- ai-validator-metadata ${JSON.stringify(METADATA)} -->`,
+        created_at: '',
+        updated_at: '',
+      };
+
+      expect(
+        client.readCommentMetadata({
+          ...comment,
+          user: { login: 'github-actions[bot]', type: 'Bot' },
+        })
+      ).toEqual(METADATA);
+      expect(
+        client.readCommentMetadata({
+          ...comment,
+          user: { login: 'contributor', type: 'User' },
+        })
+      ).toBeUndefined();
+      expect(client.readCommentMetadata(comment)).toBeUndefined();
+    });
+
     it('should handle createComment API errors', async () => {
       // Tests error handling for comment creation to ensure graceful failure
       // with meaningful error messages when GitHub API is unavailable.
@@ -535,6 +630,52 @@ describe('GitHubClient', () => {
     });
   });
 
+  describe('repository file access', () => {
+    it('should decode base64 file content at the given ref', async () => {
+      const client = new GitHubClient('ghp_valid_token_123');
+      mockReposGetContent.mockResolvedValue({
+        data: {
+          type: 'file',
+          encoding: 'base64',
+          content: Buffer.from('# Contributing').toString('base64'),
+        },
+      });
+
+      const content = await client.getFileContent(
+        'owner',
+        'repo',
+        'CONTRIBUTING.md',
+        'main'
+      );
+
+      expect(content).toBe('# Contributing');
+      expect(mockReposGetContent).toHaveBeenCalledWith({
+        owner: 'owner',
+        repo: 'repo',
+        path: 'CONTRIBUTING.md',
+        ref: 'main',
+      });
+    });
+
+    it('should return null when the file does not exist', async () => {
+      const client = new GitHubClient('ghp_valid_token_123');
+      mockReposGetContent.mockRejectedValue({ status: 404 });
+
+      const content = await client.getFileContent('owner', 'repo', 'NOPE.md');
+
+      expect(content).toBeNull();
+    });
+
+    it('should reject directories', async () => {
+      const client = new GitHubClient('ghp_valid_token_123');
+      mockReposGetContent.mockResolvedValue({ data: [] });
+
+      await expect(
+        client.getFileContent('owner', 'repo', 'docs')
+      ).rejects.toThrow('Failed to read file: "docs" is not a file');
+    });
+  });
+
   describe('commit status management', () => {
     it('should create pending commit status', async () => {
       const client = new GitHubClient('ghp_valid_token_123');
@@ -786,6 +927,201 @@ describe('GitHubClient', () => {
     });
   });
 
+  describe('retry policy', () => {
+    const successfulComment = {
+      data: {
+        id: 1,
+        body: '<!-- ai-validator -->\nUpdated',
+        created_at: '2025-01-15T10:00:00Z',
+        updated_at: '2025-01-15T10:00:00Z',
+      },
+    };
+
+    it('should retry comment updates after a secondary rate limit', async () => {
+      const client = new GitHubClient('ghp_valid_token_123');
+      mockIssuesUpdateComment
+        .mockRejectedValueOnce({
+          status: 403,
+          message: 'You have exceeded a secondary rate limit',
+          response: { headers: { 'retry-after': '0' } },
+        })
+        .mockResolvedValueOnce(successfulComment);
+
+      const result = await client.updateComment(
+        'owner',
+        'repo',
+        1,
+        'Updated',
+        'ai-validator'
+      );
+
+      expect(result.id).toBe(1);
+      expect(mockIssuesUpdateComment).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not post a duplicate when a failed create went through', async () => {
+      const client = new GitHubClient('ghp_valid_token_123', {
+        retry: { sleep: (): Promise<void> => Promise.resolve() },
+      });
+      mockIssuesCreateComment.mockRejectedValueOnce({
+        status: 502,
+        message: 'Bad Gateway',
+      });
+      mockIssuesListComments.mockResolvedValueOnce({
+        data: [
+          {
+            ...successfulComment.data,
+            id: 7,
+            body: '<!-- ai-validator -->\nBody',
+          },
+        ],
+      });
+
+      const result = await client.createComment(
+        'owner',
+        'repo',
+        1,
+        'Body',
+        'ai-validator'
+      );
+
+      expect(result.id).toBe(7);
+      expect(mockIssuesCreateComment).toHaveBeenCalledTimes(1);
+    });
+
+    it('should create the comment on retry when the failed create did not', async () => {
+      const client = new GitHubClient('ghp_valid_token_123', {
+        retry: { sleep: (): Promise<void> => Promise.resolve() },
+      });
+      mockIssuesCreateComment
+        .mockRejectedValueOnce({ status: 502, message: 'Bad Gateway' })
+        .mockResolvedValueOnce(successfulComment);
+      mockIssuesListComments.mockResolvedValueOnce({ data: [] });
+
+      const result = await client.createComment(
+        'owner',
+        'repo',
+        1,
+        'Updated',
+        'ai-validator'
+      );
+
+      expect(result.id).toBe(1);
+      expect(mockIssuesCreateComment).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not retry permission errors', async () => {
+      const client = new GitHubClient('ghp_valid_token_123');
+      mockIssuesCreateComment.mockRejectedValue({
+        status: 403,
+        message: 'Resource not accessible by integration',
+        response: { headers: { 'x-ratelimit-remaining': '4999' } },
+      });
+
+      await expect(
+        client.createComment('owner', 'repo', 1, 'Body', 'ai-validator')
+      ).rejects.toThrow('Failed to create comment');
+      expect(mockIssuesCreateComment).toHaveBeenCalledTimes(1);
+    });
+
+    it('should honor the configured number of attempts', async () => {
+      const client = new GitHubClient('ghp_valid_token_123', {
+        retryAttempts: 4,
+        retry: { sleep: (): Promise<void> => Promise.resolve() },
+      });
+      mockPullsGet.mockRejectedValue({ status: 502, message: 'Bad Gateway' });
+      mockPullsListCommits.mockResolvedValue({ data: [] });
+      mockPullsListFiles.mockResolvedValue({ data: [] });
+
+      await expect(client.extractPRData('owner', 'repo', 1)).rejects.toThrow(
+        'Failed to fetch PR data'
+      );
+      expect(mockPullsGet).toHaveBeenCalledTimes(4);
+    });
+
+    it('should reject a non-positive number of attempts', () => {
+      expect(
+        () => new GitHubClient('ghp_valid_token_123', { retryAttempts: 0 })
+      ).toThrow('retryAttempts must be a positive integer');
+    });
+  });
+
+  describe('check run management', () => {
+    it('should create a completed check run with output and annotations', async () => {
+      const client = new GitHubClient('ghp_valid_token_123');
+      mockChecksCreate.mockResolvedValue({
+        data: {
+          id: 555,
+          html_url: 'https://github.com/owner/repo/runs/555',
+          conclusion: 'failure',
+        },
+      });
+
+      const result = await client.createCheckRun('owner', 'repo', {
+        name: 'ai-validator',
+        headSha: 'abc123',
+        conclusion: 'failure',
+        title: 'Needs improvement',
+        summary: '## Results',
+        annotations: [
+          {
+            path: 'CONTRIBUTING.md',
+            start_line: 1,
+            end_line: 1,
+            annotation_level: 'failure',
+            message: 'Use conventional commits',
+          },
+        ],
+      });
+
+      expect(result).toEqual({
+        id: 555,
+        html_url: 'https://github.com/owner/repo/runs/555',
+        conclusion: 'failure',
+      });
+      expect(mockChecksCreate).toHaveBeenCalledWith({
+        owner: 'owner',
+        repo: 'repo',
+        name: 'ai-validator',
+        head_sha: 'abc123',
+        status: 'completed',
+        conclusion: 'failure',
+        output: {
+          title: 'Needs improvement',
+          summary: '## Results',
+          annotations: [
+            {
+              path: 'CONTRIBUTING.md',
+              start_line: 1,
+              end_line: 1,
+              annotation_level: 'failure',
+              message: 'Use conventional commits',
+            },
+          ],
+        },
+      });
+    });
+
+    it('should handle check run API errors', async () => {
+      const client = new GitHubClient('ghp_valid_token_123');
+      mockChecksCreate.mockRejectedValue(
+        new Error('Resource not accessible by integration')
+      );
+
+      await expect(
+        client.createCheckRun('owner', 'repo', {
+          name: 'ai-validator',
+          headSha: 'abc123',
+          conclusion: 'success',
+          title: 'OK',
+          summary: 'OK',
+        })
+      ).rejects.toThrow(
+        'Failed to create check run: Resource not accessible by integration'
+      );
+    });
+  });
+
   describe('repository permission error handling', () => {
     it('should handle repository not found error (404)', async () => {
       const client = new GitHubClient('ghp_valid_token_123');
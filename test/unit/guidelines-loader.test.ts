@@ -0,0 +1,203 @@
+/**
+ * Guidelines Loader Tests
+ *
+ * Covers the three guidelines sources (URL, repository base ref, workspace)
+ * and the order in which they are consulted. URL fetches are served by the
+ * shared MSW server; workspace lookups use a real temporary directory.
+ */
+
+/* eslint-disable security/detect-non-literal-fs-filename -- temp workspace paths */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { http, HttpResponse } from 'msw';
+import { server } from '../mocks/server';
+import { GuidelinesLoader } from '../../src/guidelines/loader';
+import type { GitHubClient } from '../../src/github/client';
+
+describe('GuidelinesLoader', () => {
+  let workspace: string;
+  let mockGitHubClient: GitHubClient;
+
+  beforeEach(() => {
+    workspace = fs.mkdtempSync(path.join(os.tmpdir(), 'guidelines-'));
+    mockGitHubClient = {
+      getFileContent: vi.fn().mockResolvedValue(null),
+    } as unknown as GitHubClient;
+  });
+
+  afterEach(() => {
+    fs.rmSync(workspace, { recursive: true, force: true });
+  });
+
+  describe('URL sources', () => {
+    it('should fetch guidelines from an HTTPS URL', async () => {
+      server.use(
+        http.get('https://example.com/standards/CONTRIBUTING.md', () =>
+          HttpResponse.text('# Org-wide guidelines')
+        )
+      );
+      const loader = new GuidelinesLoader(mockGitHubClient, workspace);
+
+      const content = await loader.load(
+        'https://example.com/standards/CONTRIBUTING.md',
+        { owner: 'owner', repo: 'repo' }
+      );
+
+      expect(content).toBe('# Org-wide guidelines');
+      expect(mockGitHubClient.getFileContent).not.toHaveBeenCalled();
+    });
+
+    it('should report HTTP errors for unreachable URLs', async () => {
+      server.use(
+        http.get('https://example.com/missing.md', () =>
+          HttpResponse.text('Not Found', { status: 404 })
+        )
+      );
+      const loader = new GuidelinesLoader(mockGitHubClient, workspace);
+
+      await expect(
+        loader.load('https://example.com/missing.md', {
+          owner: 'owner',
+          repo: 'repo',
+        })
+      ).rejects.toThrow(
+        'Failed to fetch guidelines from https://example.com/missing.md: HTTP 404'
+      );
+    });
+  });
+
+  describe('repository sources', () => {
+    it('should read guidelines from the base ref', async () => {
+      vi.mocked(mockGitHubClient.getFileContent).mockResolvedValue(
+        '# Repository guidelines'
+      );
+      const loader = new GuidelinesLoader(mockGitHubClient, workspace);
+
+      const content = await loader.load('CONTRIBUTING.md', {
+        owner: 'owner',
+        repo: 'repo',
+        ref: 'main',
+      });
+
+      expect(content).toBe('# Repository guidelines');
+      expect(mockGitHubClient.getFileContent).toHaveBeenCalledWith(
+        'owner',
+        'repo',
+        'CONTRIBUTING.md',
+        'main',
+        {}
+      );
+    });
+
+    it('should prefer the base ref over a modified workspace copy', async () => {
+      fs.writeFileSync(
+        path.join(workspace, 'CONTRIBUTING.md'),
+        'Anything goes'
+      );
+      vi.mocked(mockGitHubClient.getFileContent).mockResolvedValue(
+        '# Strict rules'
+      );
+      const loader = new GuidelinesLoader(mockGitHubClient, workspace);
+
+      const content = await loader.load('CONTRIBUTING.md', {
+        owner: 'owner',
+        repo: 'repo',
+        ref: 'main',
+      });
+
+      expect(content).toBe('# Strict rules');
+    });
+  });
+
+  describe('workspace sources', () => {
+    it('should fall back to the workspace when the file is not in the repository', async () => {
+      fs.mkdirSync(path.join(workspace, 'docs'));
+      fs.writeFileSync(
+        path.join(workspace, 'docs', 'GUIDELINES.md'),
+        '# Local guidelines'
+      );
+      const loader = new GuidelinesLoader(mockGitHubClient, workspace);
+
+      const content = await loader.load('docs/GUIDELINES.md', {
+        owner: 'owner',
+        repo: 'repo',
+      });
+
+      expect(content).toBe('# Local guidelines');
+    });
+
+    it('should work without a GitHub client', async () => {
+      fs.writeFileSync(path.join(workspace, 'CONTRIBUTING.md'), '# Offline');
+      const loader = new GuidelinesLoader(undefined, workspace);
+
+      const content = await loader.load('CONTRIBUTING.md', {
+        owner: 'owner',
+        repo: 'repo',
+      });
+
+      expect(content).toBe('# Offline');
+    });
+
+    it('should reject paths that escape the workspace', async () => {
+      const loader = new GuidelinesLoader(mockGitHubClient, workspace);
+
+      await expect(
+        loader.load('../../etc/passwd', { owner: 'owner', repo: 'repo' })
+      ).rejects.toThrow('must be inside the workspace');
+    });
+
+    it('should reject symlinks that point outside the workspace', async () => {
+      const outside = fs.mkdtempSync(path.join(os.tmpdir(), 'outside-'));
+      fs.writeFileSync(path.join(outside, 'secrets'), 'INPUT_TOKEN=secret');
+      fs.symlinkSync(
+        path.join(outside, 'secrets'),
+        path.join(workspace, 'CONTRIBUTING.md')
+      );
+      const loader = new GuidelinesLoader(undefined, workspace);
+
+      try {
+        await expect(
+          loader.load('CONTRIBUTING.md', { owner: 'owner', repo: 'repo' })
+        ).rejects.toThrow('must be inside the workspace');
+      } finally {
+        fs.rmSync(outside, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe('error handling', () => {
+    it('should explain where it looked when the file cannot be found', async () => {
+      const loader = new GuidelinesLoader(mockGitHubClient, workspace);
+
+      await expect(
+        loader.load('CONTRIBUTING.md', {
+          owner: 'owner',
+          repo: 'repo',
+          ref: 'main',
+        })
+      ).rejects.toThrow(
+        'Guidelines file "CONTRIBUTING.md" not found in owner/repo@main or in the workspace'
+      );
+    });
+
+    it('should reject empty guidelines', async () => {
+      vi.mocked(mockGitHubClient.getFileContent).mockResolvedValue('  \n');
+      const loader = new GuidelinesLoader(mockGitHubClient, workspace);
+
+      await expect(
+        loader.load('CONTRIBUTING.md', { owner: 'owner', repo: 'repo' })
+      ).rejects.toThrow('Guidelines file "CONTRIBUTING.md" is empty');
+    });
+
+    it('should reject an empty location', async () => {
+      const loader = new GuidelinesLoader(mockGitHubClient, workspace);
+
+      await expect(
+        loader.load('  ', { owner: 'owner', repo: 'repo' })
+      ).rejects.toThrow('Guidelines location cannot be empty');
+    });
+  });
+});
@@ -5,12 +5,17 @@
  * the validation workflow using the Validator class.
  */
 
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import * as core from '@actions/core';
 import * as fs from 'fs';
-import { Validator } from '../../src/core/validator';
+import { Validator, type ValidationReport } from '../../src/core/validator';
 import { ResultFormatter } from '../../src/core/formatter';
 import { GitHubClient } from '../../src/github/client';
+import { createCommentMetadata } from '../../src/github/comment-metadata';
+import { GeminiClient } from '../../src/ai/gemini-client';
+import { OpenAIClient } from '../../src/ai/openai-client';
+import { AnthropicClient } from '../../src/ai/anthropic-client';
+import { CheckRunReporter } from '../../src/core/check-reporter';
 
 // Mock external dependencies
 vi.mock('@actions/core');
@@ -20,8 +25,11 @@ vi.mock('fs');
 // Mock GitHubClient and GeminiClient constructor calls
 vi.mock('../../src/github/client');
 vi.mock('../../src/ai/gemini-client');
+vi.mock('../../src/ai/openai-client');
+vi.mock('../../src/ai/anthropic-client');
 vi.mock('../../src/core/validator');
 vi.mock('../../src/core/formatter');
+vi.mock('../../src/core/check-reporter');
 
 describe('Entry Point', () => {
   beforeEach(() => {
@@ -86,7 +94,7 @@ describe('Entry Point', () => {
       'AI Contribution Validator Action starting...'
     );
     expect(core.info).toHaveBeenCalledWith(
-      'Creating validator with GitHub and Gemini clients...'
+      'Creating validator with GitHub client and gemini provider...'
     );
     // Module auto-execution issue is now fixed with require.main check
     expect(vi.mocked(core.info).mock.calls.length).toEqual(3);
@@ -140,6 +148,7 @@ describe('Entry Point', () => {
     vi.mocked(GitHubClient).mockImplementation(
       () =>
         ({
+          getFileContent: vi.fn().mockResolvedValue(null),
           createComment: vi.fn().mockResolvedValue({ id: 123456 }),
         }) as any
     );
@@ -177,7 +186,12 @@ describe('Entry Point', () => {
     );
 
     // Verify structured validation result is used correctly
-    expect(mockValidate).toHaveBeenCalledWith('test-owner', 'test-repo', 123);
+    expect(mockValidate).toHaveBeenCalledWith(
+      'test-owner',
+      'test-repo',
+      123,
+      undefined
+    );
     expect(
       allCalls.some(call =>
         call.includes('Validation completed successfully - PR meets guidelines')
@@ -210,7 +224,18 @@ describe('Entry Point', () => {
     // Mock validation result with new structured format
     const mockValidationResult = {
       status: 'FAIL',
-      issues: ['Commit message format needs improvement', 'Add unit tests'],
+      issues: [
+        {
+          severity: 'error',
+          category: 'commits',
+          message: 'Commit message format needs improvement',
+        },
+        {
+          severity: 'warning',
+          category: 'description',
+          message: 'Add unit tests',
+        },
+      ],
       improved_title: 'feat(api): add user authentication endpoint',
       improved_commits:
         'feat(api): add user authentication endpoint\n\nImplement OAuth2 authentication with JWT tokens for secure API access.',
@@ -250,6 +275,7 @@ describe('Entry Point', () => {
     vi.mocked(GitHubClient).mockImplementation(
       () =>
         ({
+          getFileContent: vi.fn().mockResolvedValue(null),
           createComment: mockCreateComment,
         }) as any
     );
@@ -263,7 +289,10 @@ describe('Entry Point', () => {
     await run();
 
     // Verify ResultFormatter was called with validation result
-    expect(mockFormatToMarkdown).toHaveBeenCalledWith(mockValidationResult);
+    expect(mockFormatToMarkdown).toHaveBeenCalledWith(
+      mockValidationResult,
+      undefined
+    );
 
     // Verify createComment was called with formatted markdown
     expect(mockCreateComment).toHaveBeenCalledWith(
@@ -271,7 +300,8 @@ describe('Entry Point', () => {
       'test-repo',
       456,
       '## Validation Results\n❌ Validation failed\n- Commit message format needs improvement\n- Add unit tests',
-      'ai-validator'
+      'ai-validator',
+      expect.objectContaining({ version: 1 })
     );
 
     // Verify comment-url output was set
@@ -306,7 +336,13 @@ describe('Entry Point', () => {
     // Mock validation result
     const mockValidationResult = {
       status: 'FAIL',
-      issues: ['Missing tests'],
+      issues: [
+        {
+          severity: 'error',
+          category: 'description',
+          message: 'Missing tests',
+        },
+      ],
       improved_title: '',
       improved_commits: '',
       improved_description: '',
@@ -349,7 +385,9 @@ describe('Entry Point', () => {
     vi.mocked(GitHubClient).mockImplementation(
       () =>
         ({
+          getFileContent: vi.fn().mockResolvedValue(null),
           findCommentByIdentifier: mockFindCommentByIdentifier,
+          readCommentMetadata: vi.fn(),
           updateComment: mockUpdateComment,
           createComment: mockCreateComment,
         }) as any
@@ -377,7 +415,8 @@ describe('Entry Point', () => {
       'test-repo',
       999888,
       '## Validation Results\n❌ Missing tests',
-      'ai-validator'
+      'ai-validator',
+      expect.objectContaining({ version: 1 })
     );
 
     // Verify createComment was NOT called
@@ -452,7 +491,9 @@ describe('Entry Point', () => {
     vi.mocked(GitHubClient).mockImplementation(
       () =>
         ({
+          getFileContent: vi.fn().mockResolvedValue(null),
           findCommentByIdentifier: mockFindCommentByIdentifier,
+          readCommentMetadata: vi.fn(),
           updateComment: mockUpdateComment,
           createComment: mockCreateComment,
         }) as any
@@ -480,7 +521,8 @@ describe('Entry Point', () => {
       'test-repo',
       321,
       '## Validation Results\n✅ All checks passed',
-      'ai-validator'
+      'ai-validator',
+      expect.objectContaining({ version: 1 })
     );
 
     // Verify updateComment was NOT called
@@ -560,7 +602,9 @@ describe('Entry Point', () => {
     vi.mocked(GitHubClient).mockImplementation(
       () =>
         ({
+          getFileContent: vi.fn().mockResolvedValue(null),
           findCommentByIdentifier: mockFindCommentByIdentifier,
+          readCommentMetadata: vi.fn(),
           updateComment: mockUpdateComment,
           createComment: mockCreateComment,
         }) as any
@@ -588,7 +632,8 @@ describe('Entry Point', () => {
       'test-repo',
       111222,
       '## Validation Results\n✅ All checks passed',
-      'ai-validator'
+      'ai-validator',
+      expect.objectContaining({ version: 1 })
     );
 
     // Verify createComment was called as fallback after update failed
@@ -597,7 +642,8 @@ describe('Entry Point', () => {
       'test-repo',
       654,
       '## Validation Results\n✅ All checks passed',
-      'ai-validator'
+      'ai-validator',
+      expect.objectContaining({ version: 1 })
     );
 
     // Verify comment-url output was set with new comment ID from fallback
@@ -606,4 +652,1299 @@ describe('Entry Point', () => {
       'https://github.com/test-owner/test-repo/pull/654#issuecomment-333444'
     );
   });
+
+  it('should pass the gemini-model input to the Gemini client', async () => {
+    vi.mocked(core.getInput).mockImplementation((name: string) => {
+      const inputs = new Map([
+        ['github-token', 'ghp_test_token_1234567890abcdef1234567890'],
+        ['gemini-api-key', 'test-gemini-api-key'],
+        ['gemini-model', 'gemini-1.5-pro'],
+      ]);
+      return inputs.get(name) ?? '';
+    });
+
+    process.env['GITHUB_REPOSITORY'] = 'owner/repo';
+    process.env['GITHUB_EVENT_PATH'] = 'test/fixtures/pr-event.json';
+
+    const { run } = await import('../../src/index');
+    await run();
+
+    expect(core.getInput).toHaveBeenCalledWith('gemini-model');
+    expect(GeminiClient).toHaveBeenCalledWith(
+      'test-gemini-api-key',
+      'gemini-1.5-pro'
+    );
+  });
+
+  it('should fall back to the default Gemini model when none is configured', async () => {
+    vi.mocked(core.getInput).mockImplementation((name: string) => {
+      const inputs = new Map([
+        ['github-token', 'ghp_test_token_1234567890abcdef1234567890'],
+        ['gemini-api-key', 'test-gemini-api-key'],
+      ]);
+      return inputs.get(name) ?? '';
+    });
+
+    process.env['GITHUB_REPOSITORY'] = 'owner/repo';
+    process.env['GITHUB_EVENT_PATH'] = 'test/fixtures/pr-event.json';
+
+    const { run } = await import('../../src/index');
+    await run();
+
+    expect(GeminiClient).toHaveBeenCalledWith(
+      'test-gemini-api-key',
+      'gemini-1.5-flash'
+    );
+  });
+
+  describe('ai-provider selection', () => {
+    const runWithInputs = async (
+      entries: [string, string][]
+    ): Promise<void> => {
+      vi.mocked(core.getInput).mockImplementation((name: string) => {
+        const inputs = new Map([
+          ['github-token', 'ghp_test_token_1234567890abcdef1234567890'],
+          ...entries,
+        ]);
+        return inputs.get(name) ?? '';
+      });
+
+      process.env['GITHUB_REPOSITORY'] = 'owner/repo';
+      process.env['GITHUB_EVENT_PATH'] = 'test/fixtures/pr-event.json';
+
+      const { run } = await import('../../src/index');
+      await run();
+    };
+
+    it('should create an OpenAI-compatible client with model and base URL', async () => {
+      await runWithInputs([
+        ['ai-provider', 'openai'],
+        ['openai-api-key', 'sk-test'],
+        ['openai-model', 'gpt-4o'],
+        ['openai-base-url', 'https://llm.example.com/v1'],
+      ]);
+
+      expect(OpenAIClient).toHaveBeenCalledWith(
+        'sk-test',
+        'gpt-4o',
+        'https://llm.example.com/v1'
+      );
+      expect(GeminiClient).not.toHaveBeenCalled();
+      expect(Validator).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.anything(),
+        vi.mocked(OpenAIClient).mock.instances[0]
+      );
+    });
+
+    it('should create an Anthropic client with the default model', async () => {
+      await runWithInputs([
+        ['ai-provider', 'anthropic'],
+        ['anthropic-api-key', 'sk-ant-test'],
+      ]);
+
+      expect(AnthropicClient).toHaveBeenCalledWith('sk-ant-test', undefined);
+      expect(core.info).toHaveBeenCalledWith(
+        'Creating validator with GitHub client and anthropic provider...'
+      );
+    });
+
+    it('should fail when the selected provider has no API key', async () => {
+      await runWithInputs([
+        ['ai-provider', 'openai'],
+        ['gemini-api-key', 'test-gemini-api-key'],
+      ]);
+
+      expect(core.setFailed).toHaveBeenCalledWith(
+        'Action failed: An API key is required for AI provider "openai"'
+      );
+      expect(Validator).not.toHaveBeenCalled();
+    });
+
+    it('should chain fallback providers after the primary one', async () => {
+      await runWithInputs([
+        ['gemini-api-key', 'test-gemini-api-key'],
+        ['openai-api-key', 'sk-test'],
+        ['ai-fallback', 'gemini:gemini-2.5-flash, openai'],
+      ]);
+
+      expect(GeminiClient).toHaveBeenNthCalledWith(
+        1,
+        'test-gemini-api-key',
+        'gemini-1.5-flash'
+      );
+      expect(GeminiClient).toHaveBeenNthCalledWith(
+        2,
+        'test-gemini-api-key',
+        'gemini-2.5-flash'
+      );
+      expect(OpenAIClient).toHaveBeenCalledWith(
+        'sk-test',
+        undefined,
+        undefined
+      );
+      // run() is imported after resetModules, so compare by class name
+      const [, , aiProvider] = vi.mocked(Validator).mock.calls[0]!;
+      expect(aiProvider?.constructor.name).toBe('FallbackProvider');
+    });
+
+    it('should fail on an unknown ai-provider', async () => {
+      await runWithInputs([['ai-provider', 'mistral']]);
+
+      expect(core.setFailed).toHaveBeenCalledWith(
+        'Action failed: Invalid ai-provider input "mistral": must be one of gemini, openai, anthropic, none'
+      );
+    });
+  });
+
+  it('should pass max-pr-size to the validator configuration', async () => {
+    vi.mocked(core.getInput).mockImplementation((name: string) => {
+      const inputs = new Map([
+        ['github-token', 'ghp_test_token_1234567890abcdef1234567890'],
+        ['gemini-api-key', 'test-gemini-api-key'],
+        ['max-pr-size', '1000'],
+      ]);
+      return inputs.get(name) ?? '';
+    });
+
+    process.env['GITHUB_REPOSITORY'] = 'owner/repo';
+    process.env['GITHUB_EVENT_PATH'] = 'test/fixtures/pr-event.json';
+
+    const { run } = await import('../../src/index');
+    await run();
+
+    expect(Validator).toHaveBeenCalledWith(
+      expect.objectContaining({ maxPrSize: 1000 }),
+      expect.anything(),
+      expect.anything()
+    );
+  });
+
+  describe('repository configuration file', () => {
+    const runWithConfig = async (
+      configText: string | null,
+      inputs: Array<[string, string]> = []
+    ): Promise<ReturnType<typeof vi.fn>> => {
+      vi.mocked(core.getInput).mockImplementation((name: string) => {
+        const map = new Map([
+          ['github-token', 'ghp_test_token_1234567890abcdef1234567890'],
+          ['gemini-api-key', 'test-gemini-api-key'],
+          ...inputs,
+        ]);
+        return map.get(name) ?? '';
+      });
+      const getFileContent = vi.fn().mockResolvedValue(configText);
+      vi.mocked(GitHubClient).mockImplementation(
+        () => ({ getFileContent }) as any
+      );
+
+      process.env['GITHUB_REPOSITORY'] = 'owner/repo';
+      process.env['GITHUB_EVENT_PATH'] = 'test/fixtures/pr-event.json';
+
+      const { run } = await import('../../src/index');
+      await run();
+      return getFileContent;
+    };
+
+    afterEach(() => {
+      delete process.env['GITHUB_BASE_REF'];
+    });
+
+    it('should read the file from the base branch', async () => {
+      process.env['GITHUB_BASE_REF'] = 'main';
+
+      const getFileContent = await runWithConfig(null, [
+        ['config-file', '.github/custom.yml'],
+      ]);
+
+      expect(getFileContent).toHaveBeenCalledWith(
+        'owner',
+        'repo',
+        '.github/custom.yml',
+        'main'
+      );
+    });
+
+    it('should apply settings from the file', async () => {
+      await runWithConfig('max-pr-size: 2000\nskip-authors: [renovate]');
+
+      expect(core.info).toHaveBeenCalledWith(
+        'Loaded configuration from .github/ai-validator.yml'
+      );
+      expect(Validator).toHaveBeenCalledWith(
+        expect.objectContaining({ maxPrSize: 2000, skipAuthors: 'renovate' }),
+        expect.anything(),
+        expect.anything()
+      );
+    });
+
+    it('should let explicit inputs override the file', async () => {
+      await runWithConfig('max-pr-size: 2000', [['max-pr-size', '300']]);
+
+      expect(Validator).toHaveBeenCalledWith(
+        expect.objectContaining({ maxPrSize: 300 }),
+        expect.anything(),
+        expect.anything()
+      );
+    });
+
+    it('should fail on an invalid file', async () => {
+      await runWithConfig('max-pr-sise: 2000');
+
+      expect(core.setFailed).toHaveBeenCalledWith(
+        'Action failed: Invalid configuration in .github/ai-validator.yml: unknown key "max-pr-sise"'
+      );
+      expect(Validator).not.toHaveBeenCalled();
+    });
+  });
+
+  it('should pass max-api-pages and api-retry-attempts to the GitHub client', async () => {
+    vi.mocked(core.getInput).mockImplementation((name: string) => {
+      const inputs = new Map([
+        ['github-token', 'ghp_test_token_1234567890abcdef1234567890'],
+        ['gemini-api-key', 'test-gemini-api-key'],
+        ['max-api-pages', '5'],
+        ['api-retry-attempts', '6'],
+      ]);
+      return inputs.get(name) ?? '';
+    });
+
+    process.env['GITHUB_REPOSITORY'] = 'owner/repo';
+    process.env['GITHUB_EVENT_PATH'] = 'test/fixtures/pr-event.json';
+
+    const { run } = await import('../../src/index');
+    await run();
+
+    expect(GitHubClient).toHaveBeenCalledWith(
+      'ghp_test_token_1234567890abcdef1234567890',
+      { maxPages: 5, retryAttempts: 6 }
+    );
+  });
+
+  it('should pass timeout-seconds to the validator', async () => {
+    vi.mocked(core.getInput).mockImplementation((name: string) => {
+      const inputs = new Map([
+        ['github-token', 'ghp_test_token_1234567890abcdef1234567890'],
+        ['gemini-api-key', 'test-gemini-api-key'],
+        ['timeout-seconds', '300'],
+      ]);
+      return inputs.get(name) ?? '';
+    });
+
+    process.env['GITHUB_REPOSITORY'] = 'owner/repo';
+    process.env['GITHUB_EVENT_PATH'] = 'test/fixtures/pr-event.json';
+
+    const { run } = await import('../../src/index');
+    await run();
+
+    expect(Validator).toHaveBeenCalledWith(
+      expect.objectContaining({ timeoutSeconds: 300 }),
+      expect.anything(),
+      expect.anything()
+    );
+  });
+
+  it('should run commit rules only when ai-provider is none', async () => {
+    vi.mocked(core.getInput).mockImplementation((name: string) => {
+      const inputs = new Map([
+        ['github-token', 'ghp_test_token_1234567890abcdef1234567890'],
+        ['ai-provider', 'none'],
+        ['commit-rules', 'type, scope'],
+        ['commit-types', 'feat, fix'],
+        ['commit-scope-pattern', 'api|ui'],
+      ]);
+      return inputs.get(name) ?? '';
+    });
+
+    process.env['GITHUB_REPOSITORY'] = 'owner/repo';
+    process.env['GITHUB_EVENT_PATH'] = 'test/fixtures/pr-event.json';
+
+    const { run } = await import('../../src/index');
+    await run();
+
+    expect(GeminiClient).not.toHaveBeenCalled();
+    expect(core.info).toHaveBeenCalledWith(
+      'Creating validator with GitHub client and commit rules only...'
+    );
+    expect(Validator).toHaveBeenCalledWith(
+      expect.objectContaining({
+        commitRules: {
+          rules: ['type', 'scope'],
+          types: ['feat', 'fix'],
+          scopePattern: /^(?:api|ui)$/,
+        },
+      }),
+      expect.anything(),
+      undefined
+    );
+  });
+
+  it('should disable commit rules with commit-rules none', async () => {
+    vi.mocked(core.getInput).mockImplementation((name: string) => {
+      const inputs = new Map([
+        ['github-token', 'ghp_test_token_1234567890abcdef1234567890'],
+        ['gemini-api-key', 'test-gemini-api-key'],
+        ['commit-rules', 'none'],
+      ]);
+      return inputs.get(name) ?? '';
+    });
+
+    process.env['GITHUB_REPOSITORY'] = 'owner/repo';
+    process.env['GITHUB_EVENT_PATH'] = 'test/fixtures/pr-event.json';
+
+    const { run } = await import('../../src/index');
+    await run();
+
+    const [config] = vi.mocked(Validator).mock.calls[0]!;
+    expect(config.commitRules).toBeUndefined();
+  });
+
+  it('should fail on an invalid commit-scope-pattern', async () => {
+    vi.mocked(core.getInput).mockImplementation((name: string) => {
+      const inputs = new Map([
+        ['github-token', 'ghp_test_token_1234567890abcdef1234567890'],
+        ['gemini-api-key', 'test-gemini-api-key'],
+        ['commit-scope-pattern', '(unclosed'],
+      ]);
+      return inputs.get(name) ?? '';
+    });
+
+    const { run } = await import('../../src/index');
+    await run();
+
+    expect(core.setFailed).toHaveBeenCalledWith(
+      expect.stringContaining(
+        'Action failed: Invalid commit-scope-pattern input "(unclosed"'
+      )
+    );
+    expect(Validator).not.toHaveBeenCalled();
+  });
+
+  it('should fail on a non-numeric max-pr-size', async () => {
+    vi.mocked(core.getInput).mockImplementation((name: string) => {
+      const inputs = new Map([
+        ['github-token', 'ghp_test_token_1234567890abcdef1234567890'],
+        ['gemini-api-key', 'test-gemini-api-key'],
+        ['max-pr-size', 'lots'],
+      ]);
+      return inputs.get(name) ?? '';
+    });
+
+    const { run } = await import('../../src/index');
+    await run();
+
+    expect(core.setFailed).toHaveBeenCalledWith(
+      'Action failed: Invalid max-pr-size input "lots": must be a positive integer'
+    );
+    expect(Validator).not.toHaveBeenCalled();
+  });
+
+  it('should pass max-prompt-tokens to the validator configuration', async () => {
+    vi.mocked(core.getInput).mockImplementation((name: string) => {
+      const inputs = new Map([
+        ['github-token', 'ghp_test_token_1234567890abcdef1234567890'],
+        ['gemini-api-key', 'test-gemini-api-key'],
+        ['max-prompt-tokens', '2000'],
+      ]);
+      return inputs.get(name) ?? '';
+    });
+
+    process.env['GITHUB_REPOSITORY'] = 'owner/repo';
+    process.env['GITHUB_EVENT_PATH'] = 'test/fixtures/pr-event.json';
+
+    const { run } = await import('../../src/index');
+    await run();
+
+    expect(Validator).toHaveBeenCalledWith(
+      expect.objectContaining({ maxPromptTokens: 2000 }),
+      expect.anything(),
+      expect.anything()
+    );
+  });
+
+  it('should fail on an unknown analysis-scope', async () => {
+    vi.mocked(core.getInput).mockImplementation((name: string) => {
+      const inputs = new Map([
+        ['github-token', 'ghp_test_token_1234567890abcdef1234567890'],
+        ['gemini-api-key', 'test-gemini-api-key'],
+        ['analysis-scope', 'code'],
+      ]);
+      return inputs.get(name) ?? '';
+    });
+
+    const { run } = await import('../../src/index');
+    await run();
+
+    expect(core.setFailed).toHaveBeenCalledWith(
+      'Action failed: Invalid analysis-scope input "code": must be one of text, text+diff'
+    );
+    expect(Validator).not.toHaveBeenCalled();
+  });
+
+  describe('validation outputs and fail-on-errors', () => {
+    const setupRun = (
+      status: 'PASS' | 'FAIL' | 'WARNINGS' | 'ERROR',
+      failOnErrors: string,
+      extraInputs: Array<[string, string]> = []
+    ): void => {
+      vi.mocked(core.getInput).mockImplementation((name: string) => {
+        const inputs = new Map([
+          ['github-token', 'ghp_test_token_1234567890abcdef1234567890'],
+          ['gemini-api-key', 'test-gemini-api-key'],
+          ['fail-on-errors', failOnErrors],
+          ...extraInputs,
+        ]);
+        return inputs.get(name) ?? '';
+      });
+      vi.mocked(fs.readFileSync).mockReturnValue(
+        JSON.stringify({ pull_request: { number: 42 } })
+      );
+      vi.mocked(Validator).mockImplementation(
+        () =>
+          ({
+            validate: vi.fn().mockResolvedValue({
+              status,
+              issues:
+                status === 'PASS'
+                  ? []
+                  : [
+                      {
+                        severity: 'error',
+                        category: 'commits',
+                        message: 'Use conventional commits',
+                      },
+                    ],
+              improved_title: '',
+              improved_commits: '',
+              improved_description: '',
+            }),
+          }) as any
+      );
+      vi.mocked(ResultFormatter).mockImplementation(
+        () =>
+          ({
+            formatToMarkdown: vi.fn().mockReturnValue('Formatted result'),
+          }) as any
+      );
+      vi.mocked(GitHubClient).mockImplementation(
+        () =>
+          ({
+            getFileContent: vi.fn().mockResolvedValue(null),
+            findCommentByIdentifier: vi.fn().mockResolvedValue(null),
+            createComment: vi.fn().mockResolvedValue({ id: 1 }),
+          }) as any
+      );
+      process.env['GITHUB_REPOSITORY'] = 'owner/repo';
+      process.env['GITHUB_EVENT_PATH'] = 'test/fixtures/pr-event.json';
+    };
+
+    it('should set validation-status and validation-summary outputs', async () => {
+      setupRun('WARNINGS', 'false');
+
+      const { run } = await import('../../src/index');
+      await run();
+
+      expect(core.setOutput).toHaveBeenCalledWith(
+        'validation-status',
+        'WARNINGS'
+      );
+      expect(core.setOutput).toHaveBeenCalledWith(
+        'validation-summary',
+        JSON.stringify({
+          status: 'WARNINGS',
+          issues: [
+            {
+              severity: 'error',
+              category: 'commits',
+              message: 'Use conventional commits',
+            },
+          ],
+          skipped: false,
+        })
+      );
+    });
+
+    it('should set the full report as validation-json', async () => {
+      setupRun('FAIL', 'false');
+
+      const { run } = await import('../../src/index');
+      await run();
+
+      const json = vi
+        .mocked(core.setOutput)
+        .mock.calls.find(([name]) => name === 'validation-json')?.[1];
+      expect(JSON.parse(String(json))).toEqual({
+        repository: 'owner/repo',
+        pullRequest: 42,
+        status: 'FAIL',
+        issues: [
+          {
+            severity: 'error',
+            category: 'commits',
+            message: 'Use conventional commits',
+          },
+        ],
+        improved_title: '',
+        improved_commits: '',
+        improved_description: '',
+        skipped: false,
+      });
+      expect(fs.writeFileSync).not.toHaveBeenCalled();
+    });
+
+    it('should write validation-json to validation-json-file', async () => {
+      setupRun('PASS', 'false', [
+        ['validation-json-file', 'reports/validation.json'],
+      ]);
+
+      const { run } = await import('../../src/index');
+      await run();
+
+      expect(fs.mkdirSync).toHaveBeenCalledWith('reports', {
+        recursive: true,
+      });
+      expect(fs.writeFileSync).toHaveBeenCalledWith(
+        'reports/validation.json',
+        expect.stringContaining('"status":"PASS"'),
+        'utf8'
+      );
+    });
+
+    it('should only warn when validation-json-file cannot be written', async () => {
+      setupRun('PASS', 'false', [
+        ['validation-json-file', 'reports/validation.json'],
+      ]);
+      vi.mocked(fs.writeFileSync).mockImplementationOnce(() => {
+        throw new Error('EACCES: permission denied');
+      });
+
+      const { run } = await import('../../src/index');
+      await run();
+
+      expect(core.warning).toHaveBeenCalledWith(
+        'Failed to write validation JSON to reports/validation.json: EACCES: permission denied'
+      );
+      expect(core.setFailed).not.toHaveBeenCalled();
+    });
+
+    it('should fail the job on FAIL when fail-on-errors is enabled', async () => {
+      setupRun('FAIL', 'true');
+
+      const { run } = await import('../../src/index');
+      await run();
+
+      expect(core.setFailed).toHaveBeenCalledWith(
+        'Validation failed: Use conventional commits'
+      );
+      expect(core.setOutput).toHaveBeenCalledWith(
+        'comment-url',
+        'https://github.com/owner/repo/pull/42#issuecomment-1'
+      );
+    });
+
+    it('should only warn on FAIL when fail-on-errors is disabled', async () => {
+      setupRun('FAIL', 'false');
+
+      const { run } = await import('../../src/index');
+      await run();
+
+      expect(core.setFailed).not.toHaveBeenCalled();
+      expect(core.warning).toHaveBeenCalledWith(
+        'Validation found issues: Use conventional commits'
+      );
+    });
+
+    it('should not fail the job on WARNINGS even when fail-on-errors is enabled', async () => {
+      setupRun('WARNINGS', 'true');
+
+      const { run } = await import('../../src/index');
+      await run();
+
+      expect(core.setFailed).not.toHaveBeenCalled();
+    });
+
+    it('should report ERROR without failing the job when the AI is unavailable', async () => {
+      setupRun('ERROR', 'true');
+
+      const { run } = await import('../../src/index');
+      await run();
+
+      expect(core.setOutput).toHaveBeenCalledWith('validation-status', 'ERROR');
+      expect(core.setFailed).not.toHaveBeenCalled();
+      expect(core.warning).toHaveBeenCalledWith(
+        'Validation could not be completed: Use conventional commits'
+      );
+    });
+  });
+
+  describe('commit status reporting', () => {
+    const mockCreateCommitStatus = vi.fn();
+
+    beforeEach(() => {
+      vi.mocked(core.getInput).mockImplementation((name: string) => {
+        const inputs = new Map([
+          ['github-token', 'ghp_test_token_1234567890abcdef1234567890'],
+          ['gemini-api-key', 'test-gemini-api-key'],
+          ['status-context', 'ai-validator/commits'],
+        ]);
+        return inputs.get(name) ?? '';
+      });
+      vi.mocked(fs.readFileSync).mockReturnValue(
+        JSON.stringify({
+          pull_request: { number: 42, head: { sha: 'headsha123' } },
+        })
+      );
+      vi.mocked(ResultFormatter).mockImplementation(
+        () =>
+          ({
+            formatToMarkdown: vi.fn().mockReturnValue('Formatted result'),
+          }) as any
+      );
+      mockCreateCommitStatus.mockResolvedValue({ id: 1 });
+      vi.mocked(GitHubClient).mockImplementation(
+        () =>
+          ({
+            getFileContent: vi.fn().mockResolvedValue(null),
+            findCommentByIdentifier: vi.fn().mockResolvedValue(null),
+            createComment: vi.fn().mockResolvedValue({ id: 99 }),
+            createCommitStatus: mockCreateCommitStatus,
+          }) as any
+      );
+      process.env['GITHUB_REPOSITORY'] = 'owner/repo';
+      process.env['GITHUB_EVENT_PATH'] = 'test/fixtures/pr-event.json';
+    });
+
+    it('should set pending then final status on the PR head commit', async () => {
+      vi.mocked(Validator).mockImplementation(
+        () =>
+          ({
+            validate: vi.fn().mockResolvedValue({
+              status: 'FAIL',
+              issues: [
+                {
+                  severity: 'error',
+                  category: 'commits',
+                  message: 'Use conventional commits',
+                },
+                {
+                  severity: 'warning',
+                  category: 'description',
+                  message: 'Add a description',
+                },
+              ],
+              improved_title: '',
+              improved_commits: '',
+              improved_description: '',
+            }),
+          }) as any
+      );
+
+      const { run } = await import('../../src/index');
+      await run();
+
+      expect(mockCreateCommitStatus).toHaveBeenNthCalledWith(
+        1,
+        'owner',
+        'repo',
+        'headsha123',
+        'pending',
+        'Validating contribution guidelines...',
+        'ai-validator/commits',
+        undefined
+      );
+      expect(mockCreateCommitStatus).toHaveBeenNthCalledWith(
+        2,
+        'owner',
+        'repo',
+        'headsha123',
+        'failure',
+        '1 blocking issue(s) found',
+        'ai-validator/commits',
+        'https://github.com/owner/repo/pull/42#issuecomment-99'
+      );
+    });
+
+    it('should resolve the pending status with error when validation throws', async () => {
+      vi.mocked(Validator).mockImplementation(
+        () =>
+          ({
+            validate: vi.fn().mockRejectedValue(new Error('GitHub is down')),
+          }) as any
+      );
+
+      const { run } = await import('../../src/index');
+      await run();
+
+      expect(mockCreateCommitStatus).toHaveBeenLastCalledWith(
+        'owner',
+        'repo',
+        'headsha123',
+        'error',
+        'Validation error: GitHub is down',
+        'ai-validator/commits',
+        undefined
+      );
+      expect(core.setFailed).toHaveBeenCalledWith(
+        'Action failed: GitHub is down'
+      );
+    });
+
+    it('should set the error state when the AI could not validate', async () => {
+      vi.mocked(Validator).mockImplementation(
+        () =>
+          ({
+            validate: vi.fn().mockResolvedValue({
+              status: 'ERROR',
+              issues: [
+                {
+                  severity: 'error',
+                  category: 'metadata',
+                  message: 'AI validation unavailable - please review manually',
+                },
+              ],
+              improved_title: '',
+              improved_commits: '',
+              improved_description: '',
+            }),
+          }) as any
+      );
+
+      const { run } = await import('../../src/index');
+      await run();
+
+      expect(mockCreateCommitStatus).toHaveBeenLastCalledWith(
+        'owner',
+        'repo',
+        'headsha123',
+        'error',
+        'AI validation could not run - please review manually',
+        'ai-validator/commits',
+        'https://github.com/owner/repo/pull/42#issuecomment-99'
+      );
+    });
+
+    it('should only warn when the commit status cannot be set', async () => {
+      vi.mocked(Validator).mockImplementation(
+        () =>
+          ({
+            validate: vi.fn().mockResolvedValue({
+              status: 'PASS',
+              issues: [],
+              improved_title: '',
+              improved_commits: '',
+              improved_description: '',
+            }),
+          }) as any
+      );
+      mockCreateCommitStatus.mockRejectedValue(
+        new Error('Resource not accessible by integration')
+      );
+
+      const { run } = await import('../../src/index');
+      await run();
+
+      expect(core.warning).toHaveBeenCalledWith(
+        'Failed to set commit status: Resource not accessible by integration'
+      );
+      expect(core.setFailed).not.toHaveBeenCalled();
+      expect(core.setOutput).toHaveBeenCalledWith(
+        'comment-url',
+        'https://github.com/owner/repo/pull/42#issuecomment-99'
+      );
+    });
+  });
+
+  describe('report modes', () => {
+    const mockCreateComment = vi.fn();
+    const mockReport = vi.fn();
+    const mockCreateCommitStatus = vi.fn();
+
+    const setupRun = (reportMode: string): void => {
+      vi.mocked(core.getInput).mockImplementation((name: string) => {
+        const inputs = new Map([
+          ['github-token', 'ghp_test_token_1234567890abcdef1234567890'],
+          ['gemini-api-key', 'test-gemini-api-key'],
+          ['report-mode', reportMode],
+        ]);
+        return inputs.get(name) ?? '';
+      });
+      vi.mocked(fs.readFileSync).mockReturnValue(
+        JSON.stringify({
+          pull_request: { number: 42, head: { sha: 'headsha123' } },
+        })
+      );
+      vi.mocked(Validator).mockImplementation(
+        () =>
+          ({
+            validate: vi.fn().mockResolvedValue({
+              status: 'PASS',
+              issues: [],
+              improved_title: '',
+              improved_commits: '',
+              improved_description: '',
+            }),
+          }) as any
+      );
+      vi.mocked(ResultFormatter).mockImplementation(
+        () =>
+          ({
+            formatToMarkdown: vi.fn().mockReturnValue('Formatted result'),
+          }) as any
+      );
+      mockCreateComment.mockResolvedValue({ id: 7 });
+      mockCreateCommitStatus.mockResolvedValue({ id: 1 });
+      vi.mocked(GitHubClient).mockImplementation(
+        () =>
+          ({
+            getFileContent: vi.fn().mockResolvedValue(null),
+            findCommentByIdentifier: vi.fn().mockResolvedValue(null),
+            createComment: mockCreateComment,
+            createCommitStatus: mockCreateCommitStatus,
+          }) as any
+      );
+      mockReport.mockResolvedValue({
+        id: 3,
+        html_url: 'https://github.com/owner/repo/runs/3',
+        conclusion: 'success',
+      });
+      vi.mocked(CheckRunReporter).mockImplementation(
+        () => ({ report: mockReport }) as any
+      );
+      process.env['GITHUB_REPOSITORY'] = 'owner/repo';
+      process.env['GITHUB_EVENT_PATH'] = 'test/fixtures/pr-event.json';
+    };
+
+    it('should only post a comment by default', async () => {
+      setupRun('');
+
+      const { run } = await import('../../src/index');
+      await run();
+
+      expect(mockCreateComment).toHaveBeenCalled();
+      expect(mockReport).not.toHaveBeenCalled();
+    });
+
+    it('should only create a check run in check mode', async () => {
+      setupRun('check');
+
+      const { run } = await import('../../src/index');
+      await run();
+
+      expect(mockCreateComment).not.toHaveBeenCalled();
+      expect(CheckRunReporter).toHaveBeenCalledWith(expect.anything(), {
+        name: 'ai-validator',
+        annotationPath: 'CONTRIBUTING.md',
+      });
+      expect(mockReport).toHaveBeenCalledWith(
+        'owner',
+        'repo',
+        'headsha123',
+        expect.objectContaining({ status: 'PASS' }),
+        'Formatted result'
+      );
+      expect(core.setOutput).toHaveBeenCalledWith(
+        'check-run-url',
+        'https://github.com/owner/repo/runs/3'
+      );
+      expect(core.setOutput).not.toHaveBeenCalledWith(
+        'comment-url',
+        expect.anything()
+      );
+    });
+
+    it('should not add a commit status next to the check run', async () => {
+      setupRun('check');
+
+      const { run } = await import('../../src/index');
+      await run();
+
+      expect(mockReport).toHaveBeenCalled();
+      expect(mockCreateCommitStatus).not.toHaveBeenCalled();
+    });
+
+    it('should fall back to a commit status when the check run fails', async () => {
+      setupRun('both');
+      mockReport.mockRejectedValue(
+        new Error('Resource not accessible by integration')
+      );
+
+      const { run } = await import('../../src/index');
+      await run();
+
+      expect(core.warning).toHaveBeenCalledWith(
+        'Failed to create check run: Resource not accessible by integration'
+      );
+      expect(core.setFailed).not.toHaveBeenCalled();
+      expect(mockCreateCommitStatus).toHaveBeenCalledTimes(1);
+      expect(mockCreateCommitStatus).toHaveBeenCalledWith(
+        'owner',
+        'repo',
+        'headsha123',
+        'success',
+        expect.any(String),
+        'ai-validator',
+        'https://github.com/owner/repo/pull/42#issuecomment-7'
+      );
+    });
+
+    it('should post both a comment and a check run in both mode', async () => {
+      setupRun('both');
+
+      const { run } = await import('../../src/index');
+      await run();
+
+      expect(mockCreateComment).toHaveBeenCalled();
+      expect(mockReport).toHaveBeenCalled();
+    });
+
+    it('should reject unknown report modes', async () => {
+      setupRun('email');
+
+      const { run } = await import('../../src/index');
+      await run();
+
+      expect(core.setFailed).toHaveBeenCalledWith(
+        'Action failed: Invalid report-mode input "email": must be one of comment, check, both'
+      );
+    });
+  });
+
+  describe('dry run', () => {
+    const mockCreateComment = vi.fn();
+    const mockCreateCommitStatus = vi.fn();
+
+    const setupRun = (extraInputs: Array<[string, string]> = []): void => {
+      vi.mocked(core.getInput).mockImplementation((name: string) => {
+        const inputs = new Map([
+          ['github-token', 'ghp_test_token_1234567890abcdef1234567890'],
+          ['dry-run', 'true'],
+          ...extraInputs,
+        ]);
+        return inputs.get(name) ?? '';
+      });
+      vi.mocked(fs.readFileSync).mockReturnValue(
+        JSON.stringify({
+          pull_request: { number: 42, head: { sha: 'headsha123' } },
+        })
+      );
+      vi.mocked(Validator).mockImplementation(
+        () =>
+          ({
+            validate: vi.fn().mockResolvedValue({
+              status: 'PASS',
+              issues: [],
+              improved_title: '',
+              improved_commits: '',
+              improved_description: '',
+              skipped: true,
+              reason: 'dry-run',
+              dryRun: { prompt: 'Analyze <this> PR', estimatedTokens: 5 },
+            }),
+          }) as any
+      );
+      vi.mocked(GitHubClient).mockImplementation(
+        () =>
+          ({
+            getFileContent: vi.fn().mockResolvedValue(null),
+            findCommentByIdentifier: vi.fn().mockResolvedValue(null),
+            createComment: mockCreateComment,
+            createCommitStatus: mockCreateCommitStatus,
+          }) as any
+      );
+      process.env['GITHUB_REPOSITORY'] = 'owner/repo';
+      process.env['GITHUB_EVENT_PATH'] = 'test/fixtures/pr-event.json';
+    };
+
+    it('should publish the prompt without calling the AI or touching the PR', async () => {
+      setupRun();
+
+      const { run } = await import('../../src/index');
+      await run();
+
+      expect(GeminiClient).not.toHaveBeenCalled();
+      expect(Validator).toHaveBeenCalledWith(
+        expect.objectContaining({ dryRun: true }),
+        expect.anything(),
+        undefined
+      );
+      expect(core.setOutput).toHaveBeenCalledWith(
+        'dry-run-prompt',
+        'Analyze <this> PR'
+      );
+      expect(core.setOutput).toHaveBeenCalledWith(
+        'estimated-prompt-tokens',
+        '5'
+      );
+      expect(core.summary.addCodeBlock).toHaveBeenCalledWith(
+        'Analyze &lt;this&gt; PR'
+      );
+      expect(core.summary.write).toHaveBeenCalled();
+      expect(mockCreateComment).not.toHaveBeenCalled();
+      expect(mockCreateCommitStatus).not.toHaveBeenCalled();
+      expect(core.setFailed).not.toHaveBeenCalled();
+    });
+
+    it('should only warn when the job summary cannot be written', async () => {
+      setupRun();
+      vi.mocked(core.summary.write).mockRejectedValueOnce(
+        new Error(
+          'Unable to find environment variable for $GITHUB_STEP_SUMMARY'
+        )
+      );
+
+      const { run } = await import('../../src/index');
+      await run();
+
+      expect(core.warning).toHaveBeenCalledWith(
+        'Failed to write the dry-run prompt to the job summary: Unable to find environment variable for $GITHUB_STEP_SUMMARY'
+      );
+      expect(core.setOutput).toHaveBeenCalledWith(
+        'dry-run-prompt',
+        'Analyze <this> PR'
+      );
+      expect(core.setFailed).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('job summary', () => {
+    const mockCreateComment = vi.fn();
+
+    const setupRun = (report: Record<string, unknown> = {}): void => {
+      vi.mocked(core.getInput).mockImplementation((name: string) => {
+        const inputs = new Map([
+          ['github-token', 'ghp_test_token_1234567890abcdef1234567890'],
+          ['gemini-api-key', 'test-gemini-api-key'],
+        ]);
+        return inputs.get(name) ?? '';
+      });
+      vi.mocked(fs.readFileSync).mockReturnValue(
+        JSON.stringify({ pull_request: { number: 42 } })
+      );
+      vi.mocked(Validator).mockImplementation(
+        () =>
+          ({
+            validate: vi.fn().mockResolvedValue({
+              status: 'PASS',
+              issues: [],
+              improved_title: '',
+              improved_commits: '',
+              improved_description: '',
+              ...report,
+            }),
+          }) as any
+      );
+      vi.mocked(ResultFormatter).mockImplementation(
+        () =>
+          ({
+            formatToMarkdown: vi.fn().mockReturnValue('Formatted result'),
+          }) as any
+      );
+      mockCreateComment.mockResolvedValue({ id: 7 });
+      vi.mocked(GitHubClient).mockImplementation(
+        () =>
+          ({
+            getFileContent: vi.fn().mockResolvedValue(null),
+            findCommentByIdentifier: vi.fn().mockResolvedValue(null),
+            createComment: mockCreateComment,
+            createCommitStatus: vi.fn().mockResolvedValue({ id: 1 }),
+          }) as any
+      );
+      process.env['GITHUB_REPOSITORY'] = 'owner/repo';
+      process.env['GITHUB_EVENT_PATH'] = 'test/fixtures/pr-event.json';
+    };
+
+    it('should write the report with model, token usage and duration', async () => {
+      setupRun({
+        provider: 'gemini',
+        model: 'gemini-2.5-flash',
+        fallbackFrom: ['openai/gpt-4o-mini'],
+        tokenUsage: {
+          promptTokens: 1200,
+          completionTokens: 300,
+          totalTokens: 1500,
+        },
+      });
+
+      const { run } = await import('../../src/index');
+      await run();
+
+      expect(core.summary.addRaw).toHaveBeenCalledWith(
+        'Formatted result',
+        true
+      );
+      expect(core.summary.addTable).toHaveBeenCalledWith([
+        [
+          { data: 'Detail', header: true },
+          { data: 'Value', header: true },
+        ],
+        ['Duration', expect.stringMatching(/^\d+\.\d s$/)],
+        ['Model', 'gemini/gemini-2.5-flash'],
+        ['Failed providers', 'openai/gpt-4o-mini'],
+        ['Token usage', '1500 (1200 prompt, 300 completion)'],
+      ]);
+      expect(core.summary.write).toHaveBeenCalled();
+    });
+
+    it('should name the skip reason', async () => {
+      setupRun({ skipped: true, reason: 'pr-too-large' });
+
+      const { run } = await import('../../src/index');
+      await run();
+
+      expect(core.summary.addTable).toHaveBeenCalledWith(
+        expect.arrayContaining([['Skipped', 'pr-too-large']])
+      );
+    });
+
+    it('should write the summary even when the comment cannot be posted', async () => {
+      setupRun();
+      mockCreateComment.mockRejectedValue(
+        new Error('Resource not accessible by integration')
+      );
+
+      const { run } = await import('../../src/index');
+      await run();
+
+      expect(core.summary.write).toHaveBeenCalled();
+      expect(core.setFailed).toHaveBeenCalledWith(
+        'Action failed: Resource not accessible by integration'
+      );
+    });
+
+    it('should only warn when the job summary cannot be written', async () => {
+      setupRun();
+      vi.mocked(core.summary.write).mockRejectedValueOnce(
+        new Error(
+          'Unable to find environment variable for $GITHUB_STEP_SUMMARY'
+        )
+      );
+
+      const { run } = await import('../../src/index');
+      await run();
+
+      expect(core.warning).toHaveBeenCalledWith(
+        'Failed to write the validation results to the job summary: Unable to find environment variable for $GITHUB_STEP_SUMMARY'
+      );
+      expect(mockCreateComment).toHaveBeenCalled();
+      expect(core.setFailed).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('comment metadata', () => {
+    const mockValidate = vi.fn();
+    const mockUpdateComment = vi.fn();
+    const mockReadCommentMetadata = vi.fn();
+    const mockFormatToMarkdown = vi.fn();
+    const cacheKey = { fingerprint: 'f'.repeat(64), commitShas: ['abc'] };
+    const previousReport: ValidationReport = {
+      status: 'WARNINGS',
+      issues: [],
+      improved_title: '',
+      improved_commits: '',
+      improved_description: '',
+      cacheKey,
+    };
+
+    const setupRun = (metadata?: object): void => {
+      vi.mocked(core.getInput).mockImplementation((name: string) => {
+        const inputs = new Map([
+          ['github-token', 'ghp_test_token_1234567890abcdef1234567890'],
+          ['gemini-api-key', 'test-gemini-api-key'],
+        ]);
+        return inputs.get(name) ?? '';
+      });
+      vi.mocked(fs.readFileSync).mockReturnValue(
+        JSON.stringify({ pull_request: { number: 42 } })
+      );
+      mockValidate.mockResolvedValue({ ...previousReport, cached: true });
+      vi.mocked(Validator).mockImplementation(
+        () => ({ validate: mockValidate }) as any
+      );
+      mockFormatToMarkdown.mockReturnValue('Formatted result');
+      vi.mocked(ResultFormatter).mockImplementation(
+        () => ({ formatToMarkdown: mockFormatToMarkdown }) as any
+      );
+      mockUpdateComment.mockResolvedValue({ id: 7 });
+      mockReadCommentMetadata.mockReturnValue(metadata);
+      vi.mocked(GitHubClient).mockImplementation(
+        () =>
+          ({
+            getFileContent: vi.fn().mockResolvedValue(null),
+            findCommentByIdentifier: vi.fn().mockResolvedValue({
+              id: 7,
+              body: '<!-- ai-validator -->\nOld result',
+            }),
+            readCommentMetadata: mockReadCommentMetadata,
+            updateComment: mockUpdateComment,
+          }) as any
+      );
+      process.env['GITHUB_REPOSITORY'] = 'owner/repo';
+      process.env['GITHUB_EVENT_PATH'] = 'test/fixtures/pr-event.json';
+      process.env['GITHUB_SERVER_URL'] = 'https://github.com';
+      process.env['GITHUB_RUN_ID'] = '42';
+    };
+
+    afterEach(() => {
+      delete process.env['GITHUB_SERVER_URL'];
+      delete process.env['GITHUB_RUN_ID'];
+    });
+
+    it('should hand the report in the previous metadata to the validator', async () => {
+      setupRun(
+        createCommentMetadata(previousReport, {
+          timestamp: '2026-10-18T12:00:00.000Z',
+        })
+      );
+
+      const { run } = await import('../../src/index');
+      await run();
+
+      expect(mockValidate).toHaveBeenCalledWith(
+        'owner',
+        'repo',
+        42,
+        previousReport
+      );
+      expect(core.info).toHaveBeenCalledWith(
+        'PR text, commits and guidelines are unchanged since the last run, reusing its result'
+      );
+      // The comment lists what changed against the previous report
+      expect(mockFormatToMarkdown).toHaveBeenCalledWith(
+        { ...previousReport, cached: true },
+        previousReport
+      );
+    });
+
+    it('should record the run in the new comment', async () => {
+      setupRun();
+
+      const { run } = await import('../../src/index');
+      await run();
+
+      expect(mockUpdateComment).toHaveBeenCalledWith(
+        'owner',
+        'repo',
+        7,
+        'Formatted result',
+        'ai-validator',
+        expect.objectContaining({
+          version: 1,
+          status: 'WARNINGS',
+          fingerprint: cacheKey.fingerprint,
+          commitShas: cacheKey.commitShas,
+          runUrl: 'https://github.com/owner/repo/actions/runs/42',
+          timestamp: expect.any(String),
+        })
+      );
+    });
+
+    it('should validate afresh when the comment has no usable metadata', async () => {
+      setupRun();
+
+      const { run } = await import('../../src/index');
+      await run();
+
+      expect(mockValidate).toHaveBeenCalledWith('owner', 'repo', 42, undefined);
+    });
+  });
 });
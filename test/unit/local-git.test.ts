@@ -0,0 +1,212 @@
+/* eslint-disable security/detect-non-literal-fs-filename -- temp repository paths */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  detectGitHubRepository,
+  localRepository,
+  parseRange,
+  readLocalPRData,
+} from '../../src/cli/local-git';
+
+/**
+ * Local Git Reader Test Suite
+ *
+ * Runs against throwaway repositories, since the parsing only makes sense
+ * together with real git output.
+ */
+
+const AUTHOR_ENV = {
+  GIT_AUTHOR_NAME: 'Jane Doe',
+  GIT_AUTHOR_EMAIL: 'jane@example.com',
+  GIT_AUTHOR_DATE: '2025-01-01T10:00:00Z',
+  GIT_COMMITTER_NAME: 'Jane Doe',
+  GIT_COMMITTER_EMAIL: 'jane@example.com',
+  GIT_COMMITTER_DATE: '2025-01-01T10:00:00Z',
+};
+
+describe('parseRange', () => {
+  it('should split two-dot and three-dot ranges', () => {
+    expect(parseRange('main..HEAD')).toEqual({ base: 'main', head: 'HEAD' });
+    expect(parseRange('main...feature')).toEqual({
+      base: 'main',
+      head: 'feature',
+    });
+  });
+
+  it('should treat a single revision as the base', () => {
+    expect(parseRange('origin/main')).toEqual({
+      base: 'origin/main',
+      head: 'HEAD',
+    });
+  });
+
+  it('should reject ranges with an empty side', () => {
+    expect(() => parseRange('main..')).toThrow(
+      'Invalid range "main..": expected <base>..<head> or <base>'
+    );
+  });
+});
+
+describe('readLocalPRData', () => {
+  let repoDir: string;
+
+  const git = (...args: string[]): string =>
+    execFileSync('git', args, {
+      cwd: repoDir,
+      encoding: 'utf8',
+      env: { ...process.env, ...AUTHOR_ENV },
+    });
+
+  const commitFile = (
+    filename: string,
+    content: string,
+    message: string
+  ): void => {
+    fs.writeFileSync(path.join(repoDir, filename), content);
+    git('add', filename);
+    git('commit', '--quiet', '-m', message);
+  };
+
+  beforeEach(() => {
+    repoDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ai-validate-'));
+    git('init', '--quiet', '--initial-branch=main');
+    commitFile('README.md', 'hello\n', 'chore: initial commit');
+    git('checkout', '--quiet', '-b', 'feature');
+  });
+
+  afterEach(() => {
+    fs.rmSync(repoDir, { recursive: true, force: true });
+  });
+
+  it('should read commits oldest first with their full messages', () => {
+    commitFile('a.txt', 'a\n', 'feat: add a\n\nExplains why.');
+    commitFile('b.txt', 'b\n', 'fix: add b');
+
+    const prData = readLocalPRData('main..feature', { cwd: repoDir });
+
+    expect(prData.commits.map(commit => commit.message)).toEqual([
+      'feat: add a\n\nExplains why.',
+      'fix: add b',
+    ]);
+    expect(prData.commits[0]?.sha).toMatch(/^[0-9a-f]{40}$/);
+    expect(prData.commits[0]?.author).toEqual({
+      name: 'Jane Doe',
+      email: 'jane@example.com',
+      date: '2025-01-01T10:00:00+00:00',
+    });
+    expect(prData.title).toBe('feat: add a');
+    expect(prData.body).toBe('');
+    expect(prData.baseRef).toBe('main');
+  });
+
+  it('should use the body of a single commit as the description', () => {
+    commitFile('a.txt', 'a\n', 'feat: add a\n\nExplains why.');
+
+    const prData = readLocalPRData('main', { cwd: repoDir });
+
+    expect(prData.body).toBe('Explains why.');
+  });
+
+  it('should prefer an explicit title and body', () => {
+    commitFile('a.txt', 'a\n', 'feat: add a');
+
+    const prData = readLocalPRData('main', {
+      cwd: repoDir,
+      title: 'feat: local title',
+      body: 'Local body',
+    });
+
+    expect(prData.title).toBe('feat: local title');
+    expect(prData.body).toBe('Local body');
+  });
+
+  it('should report changed files against the merge base', () => {
+    commitFile('a.txt', 'one\ntwo\n', 'feat: add a');
+    commitFile('README.md', 'hello world\n', 'docs: reword readme');
+    // A commit on the base branch after branching must not show up
+    git('checkout', '--quiet', 'main');
+    commitFile('c.txt', 'c\n', 'chore: unrelated');
+
+    const prData = readLocalPRData('main..feature', { cwd: repoDir });
+
+    expect(prData.files).toEqual([
+      {
+        filename: 'README.md',
+        status: 'modified',
+        additions: 1,
+        deletions: 1,
+        changes: 2,
+        patch: '@@ -1 +1 @@\n-hello\n+hello world',
+      },
+      {
+        filename: 'a.txt',
+        status: 'added',
+        additions: 2,
+        deletions: 0,
+        changes: 2,
+        patch: '@@ -0,0 +1,2 @@\n+one\n+two',
+      },
+    ]);
+    expect(prData.diffStats).toEqual({
+      totalAdditions: 3,
+      totalDeletions: 1,
+      totalChanges: 4,
+      filesChanged: 2,
+    });
+  });
+
+  it('should report deleted files with their patch', () => {
+    git('rm', '--quiet', 'README.md');
+    git('commit', '--quiet', '-m', 'docs: drop readme');
+
+    const prData = readLocalPRData('main', { cwd: repoDir });
+
+    expect(prData.files).toEqual([
+      {
+        filename: 'README.md',
+        status: 'removed',
+        additions: 0,
+        deletions: 1,
+        changes: 1,
+        patch: '@@ -1 +0,0 @@\n-hello',
+      },
+    ]);
+  });
+
+  it('should fail when the range has no commits', () => {
+    expect(() => readLocalPRData('main', { cwd: repoDir })).toThrow(
+      'No commits found in range "main"'
+    );
+  });
+
+  it('should name the failing git command', () => {
+    expect(() => readLocalPRData('missing..HEAD', { cwd: repoDir })).toThrow(
+      /^git log failed: /
+    );
+  });
+
+  describe('repository detection', () => {
+    it('should read owner and name from a GitHub origin', () => {
+      git('remote', 'add', 'origin', 'git@github.com:acme/widgets.git');
+
+      expect(detectGitHubRepository(repoDir)).toEqual({
+        owner: 'acme',
+        repo: 'widgets',
+      });
+    });
+
+    it('should fall back to the directory name without a GitHub origin', () => {
+      git('remote', 'add', 'origin', 'https://example.com/acme/widgets.git');
+
+      expect(detectGitHubRepository(repoDir)).toBeUndefined();
+      expect(localRepository(repoDir)).toEqual({
+        owner: 'local',
+        repo: path.basename(repoDir),
+      });
+    });
+  });
+});
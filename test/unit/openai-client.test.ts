@@ -0,0 +1,243 @@
+import { describe, it, expect } from 'vitest';
+import { http, HttpResponse } from 'msw';
+import { server } from '../mocks/server';
+import { OPENAI_API_BASE, mockProviderVerdict } from '../mocks/handlers';
+import { OpenAIClient } from '../../src/ai/openai-client';
+
+/**
+ * OpenAI Client Test Suite
+ *
+ * The client talks to the API through global fetch, so the shared MSW server
+ * intercepts its requests directly; no SDK mocking is required.
+ */
+
+describe('OpenAIClient', () => {
+  describe('initialization', () => {
+    it('should default to gpt-4o-mini', () => {
+      const client = new OpenAIClient('test-openai-key');
+
+      expect(client.name).toBe('openai');
+      expect(client.model).toBe('gpt-4o-mini');
+    });
+
+    it('should throw error with empty API key', () => {
+      expect(() => new OpenAIClient('')).toThrow('API key is required');
+    });
+  });
+
+  describe('content validation', () => {
+    it('should return the structured verdict with token usage', async () => {
+      const client = new OpenAIClient('test-openai-key');
+
+      const result = await client.validateContent('Test prompt');
+
+      expect(result).toEqual({
+        ...mockProviderVerdict,
+        status: 'WARNINGS',
+        provider: 'openai',
+        model: 'gpt-4o-mini',
+        tokenUsage: {
+          promptTokens: 900,
+          completionTokens: 120,
+          totalTokens: 1020,
+        },
+      });
+    });
+
+    it('should request JSON schema structured output', async () => {
+      let body: Record<string, unknown> = {};
+      server.use(
+        http.post(
+          'https://llm.example.com/v1/chat/completions',
+          async ({ request }) => {
+            body = (await request.json()) as Record<string, unknown>;
+            return HttpResponse.json({
+              choices: [
+                { message: { content: JSON.stringify(mockProviderVerdict) } },
+              ],
+            });
+          }
+        )
+      );
+      const client = new OpenAIClient(
+        'test-openai-key',
+        'llama-3.1-70b',
+        'https://llm.example.com/v1/'
+      );
+
+      const result = await client.validateContent('Test prompt');
+
+      expect(body['model']).toBe('llama-3.1-70b');
+      expect(body['response_format']).toMatchObject({
+        type: 'json_schema',
+        json_schema: { name: 'validation_result', strict: true },
+      });
+      expect(result.status).toBe('WARNINGS');
+      expect(result.tokenUsage?.totalTokens).toBe(0);
+    });
+
+    it('should extract JSON wrapped in a markdown code fence', async () => {
+      server.use(
+        http.post(`${OPENAI_API_BASE}/chat/completions`, () =>
+          HttpResponse.json({
+            choices: [
+              {
+                message: {
+                  content: `Here is the result:\n\`\`\`json\n${JSON.stringify({ ...mockProviderVerdict, issues: [] })}\n\`\`\``,
+                },
+              },
+            ],
+          })
+        )
+      );
+      const client = new OpenAIClient('test-openai-key');
+
+      const result = await client.validateContent('Test prompt');
+
+      expect(result.status).toBe('PASS');
+    });
+
+    it('should return fallback result when the API rejects the key', async () => {
+      const client = new OpenAIClient('wrong-key');
+
+      const result = await client.validateContent('Test prompt');
+
+      expect(result.status).toBe('ERROR');
+      expect(result.issues).toEqual([
+        {
+          severity: 'error',
+          category: 'metadata',
+          message: 'AI validation unavailable - please review manually',
+        },
+      ]);
+      expect(result.model).toBe('gpt-4o-mini');
+    });
+
+    it('should derive the status from issue severities', async () => {
+      server.use(
+        http.post(`${OPENAI_API_BASE}/chat/completions`, () =>
+          HttpResponse.json({
+            choices: [
+              {
+                message: {
+                  content: JSON.stringify({
+                    ...mockProviderVerdict,
+                    status: 'FAIL',
+                    issues: [
+                      {
+                        severity: 'suggestion',
+                        category: 'title',
+                        target: '',
+                        message: 'Mention the affected module',
+                      },
+                      { severity: 'warning', message: '' },
+                    ],
+                  }),
+                },
+              },
+            ],
+          })
+        )
+      );
+      const client = new OpenAIClient('test-openai-key');
+
+      const result = await client.validateContent('Test prompt');
+
+      expect(result.status).toBe('PASS');
+      expect(result.issues).toEqual([
+        {
+          severity: 'suggestion',
+          category: 'title',
+          message: 'Mention the affected module',
+        },
+      ]);
+    });
+
+    it('should return per-commit verdicts', async () => {
+      server.use(
+        http.post(`${OPENAI_API_BASE}/chat/completions`, () =>
+          HttpResponse.json({
+            choices: [
+              {
+                message: {
+                  content: JSON.stringify({
+                    ...mockProviderVerdict,
+                    commits: [
+                      {
+                        sha: 'abc1234',
+                        status: 'FAIL',
+                        issues: ['Missing type prefix'],
+                        suggested_message: 'fix: handle empty input',
+                      },
+                      { status: 'PASS', issues: [] },
+                    ],
+                  }),
+                },
+              },
+            ],
+          })
+        )
+      );
+      const client = new OpenAIClient('test-openai-key');
+
+      const result = await client.validateContent('Test prompt');
+
+      expect(result.commits).toEqual([
+        {
+          sha: 'abc1234',
+          status: 'FAIL',
+          issues: ['Missing type prefix'],
+          suggested_message: 'fix: handle empty input',
+        },
+      ]);
+    });
+
+    it('should classify an aborted request as a timeout', async () => {
+      const client = new OpenAIClient('test-openai-key');
+
+      await expect(
+        client.requestValidation('Test prompt', {
+          signal: global.AbortSignal.abort(),
+        })
+      ).rejects.toMatchObject({ kind: 'timeout' });
+    });
+
+    it('should reject an answer without an issue list', async () => {
+      server.use(
+        http.post(`${OPENAI_API_BASE}/chat/completions`, () =>
+          HttpResponse.json({
+            choices: [{ message: { content: '{"issues": "none"}' } }],
+          })
+        )
+      );
+      const client = new OpenAIClient('test-openai-key');
+
+      await expect(
+        client.requestValidation('Test prompt')
+      ).rejects.toMatchObject({ kind: 'invalid-response' });
+      const result = await client.validateContent('Test prompt');
+      expect(result.status).toBe('ERROR');
+    });
+
+    it('should return fallback result when the answer is not JSON', async () => {
+      server.use(
+        http.post(`${OPENAI_API_BASE}/chat/completions`, () =>
+          HttpResponse.json({
+            choices: [{ message: { content: 'Looks good to me!' } }],
+          })
+        )
+      );
+      const client = new OpenAIClient('test-openai-key');
+
+      const result = await client.validateContent('Test prompt');
+
+      expect(result.issues).toEqual([
+        {
+          severity: 'error',
+          category: 'metadata',
+          message: 'AI validation unavailable - please review manually',
+        },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'vitest';
+import { fitPromptInputs } from '../../src/ai/prompt-budget';
+import { estimateTokens } from '../../src/ai/tokens';
+import type { PRData } from '../../src/github/client';
+
+/**
+ * Prompt Budget Test Suite
+ */
+
+const lines = (count: number, prefix = 'line'): string =>
+  Array.from({ length: count }, (_, i) => `${prefix} ${i}`).join('\n');
+
+const prData = (body: string, messages: string[] = []): PRData => ({
+  number: 1,
+  title: 'feat: add widgets',
+  body,
+  commits: messages.map((message, i) => ({
+    sha: `${i}`.repeat(40),
+    message,
+    author: { name: 'Jane', email: 'jane@example.com', date: '' },
+  })),
+  files: [],
+  diffStats: {
+    totalAdditions: 0,
+    totalDeletions: 0,
+    totalChanges: 0,
+    filesChanged: 0,
+  },
+});
+
+describe('fitPromptInputs', () => {
+  it('should return the inputs unchanged when they fit', () => {
+    const data = prData('Adds widgets', ['feat: add widgets']);
+
+    const result = fitPromptInputs(data, '# Contributing', 1000);
+
+    expect(result.prData).toBe(data);
+    expect(result.guidelines).toBe('# Contributing');
+    expect(result.truncations).toEqual([]);
+  });
+
+  it('should cut large sections in proportion to their size', () => {
+    // About 2,000 and 4,000 tokens
+    const body = lines(1000, 'body');
+    const guidelines = lines(2000, 'rule');
+
+    const result = fitPromptInputs(prData(body), guidelines, 1500);
+
+    const [description, rules] = result.truncations;
+    expect(result.truncations.map(t => t.section)).toEqual([
+      'description',
+      'guidelines',
+    ]);
+    expect(description?.originalTokens).toBe(estimateTokens(body));
+    expect(rules?.originalTokens).toBe(estimateTokens(guidelines));
+    // Each keeps about the same fraction of its tokens
+    const keptShare = (t: typeof description): number =>
+      (t?.keptTokens ?? 0) / (t?.originalTokens ?? 1);
+    expect(keptShare(description)).toBeCloseTo(keptShare(rules), 1);
+    expect(
+      estimateTokens(result.prData.body) + estimateTokens(result.guidelines)
+    ).toBeLessThanOrEqual(1500);
+    expect(result.guidelines).toMatch(
+      /^rule 0\nrule 1\n[\s\S]*\n\.\.\. \(\d+ more lines truncated\)$/
+    );
+  });
+
+  it('should shorten single-line sections instead of dropping them', () => {
+    // About 25,000 and 50,000 tokens, each on a single line
+    const body = 'body '.repeat(20000);
+    const guidelines = 'rule '.repeat(40000);
+
+    const result = fitPromptInputs(prData(body), guidelines, 3000);
+
+    const kept = result.truncations.map(t => t.keptTokens);
+    expect(kept.every(tokens => tokens > 500)).toBe(true);
+    expect(result.prData.body).toMatch(
+      /^body body [\s\S]*\n\.\.\. \(1 more lines truncated\)$/
+    );
+    expect(result.guidelines).toMatch(/^rule rule /);
+    expect(
+      estimateTokens(result.prData.body) + estimateTokens(result.guidelines)
+    ).toBeLessThanOrEqual(3000);
+  });
+
+  it('should keep small sections and the title whole', () => {
+    const result = fitPromptInputs(
+      prData('Short description'),
+      lines(2000),
+      500
+    );
+
+    expect(result.prData.title).toBe('feat: add widgets');
+    expect(result.prData.body).toBe('Short description');
+    expect(result.truncations.map(t => t.section)).toEqual(['guidelines']);
+  });
+
+  it('should keep the subject line of every commit', () => {
+    const message = `feat: add widgets\n\n${lines(500)}`;
+
+    const result = fitPromptInputs(
+      prData('', [message, message, 'fix: typo']),
+      '',
+      300
+    );
+
+    const messages = result.prData.commits.map(commit => commit.message);
+    expect(messages[0]).toMatch(/^feat: add widgets\n/);
+    expect(messages[0]).toMatch(/\.\.\. \(\d+ more lines truncated\)$/);
+    expect(messages[1]).toMatch(/^feat: add widgets\n/);
+    expect(messages[2]).toBe('fix: typo');
+    expect(result.prData.commits[0]?.sha).toBe('0'.repeat(40));
+    expect(result.truncations).toEqual([
+      expect.objectContaining({ section: 'commits' }),
+    ]);
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { computeQualityScores } from '../../src/core/quality-score';
+
+/**
+ * Quality Score Test Suite
+ *
+ * Scores are a pure function of the issues, so they are checked directly.
+ */
+
+describe('computeQualityScores', () => {
+  it('should score a report without issues as perfect', () => {
+    expect(computeQualityScores([])).toEqual({
+      title: 100,
+      commits: 100,
+      description: 100,
+      metadata: 100,
+      overall: 100,
+    });
+  });
+
+  it('should deduct per issue according to its severity', () => {
+    const scores = computeQualityScores([
+      { severity: 'error', category: 'commits', message: 'Use a type' },
+      { severity: 'warning', category: 'commits', message: 'Shorten it' },
+      { severity: 'suggestion', category: 'title', message: 'Add a scope' },
+    ]);
+
+    expect(scores).toEqual({
+      title: 95,
+      commits: 45,
+      description: 100,
+      metadata: 100,
+      overall: 85,
+    });
+  });
+
+  it('should not go below zero', () => {
+    const scores = computeQualityScores(
+      Array.from({ length: 5 }, () => ({
+        severity: 'error' as const,
+        category: 'description' as const,
+        message: 'Missing section',
+      }))
+    );
+
+    expect(scores.description).toBe(0);
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  DEFAULT_CONFIG_PATH,
+  loadRepoConfig,
+  parseRepoConfig,
+} from '../../src/config/repo-config';
+import type { GitHubClient } from '../../src/github/client';
+
+/**
+ * Repository Configuration Test Suite
+ *
+ * Covers schema validation of `.github/ai-validator.yml` and its conversion
+ * into input-style settings.
+ */
+
+describe('parseRepoConfig', () => {
+  it('should convert values into input strings', () => {
+    const config = parseRepoConfig(
+      [
+        'ai-provider: openai',
+        "skip-authors: ['dependabot[bot]', 'renovate[bot]']",
+        'commit-types: feat, fix',
+        'max-pr-size: 2000',
+        'fail-on-errors: true',
+      ].join('\n'),
+      DEFAULT_CONFIG_PATH
+    );
+
+    expect(Object.fromEntries(config.settings)).toEqual({
+      'ai-provider': 'openai',
+      'skip-authors': 'dependabot[bot],renovate[bot]',
+      'commit-types': 'feat, fix',
+      'max-pr-size': '2000',
+      'fail-on-errors': 'true',
+    });
+    expect(config.templates).toEqual({});
+  });
+
+  it('should read comment templates', () => {
+    const config = parseRepoConfig(
+      "templates:\n  header: '## Contribution Check'\n  footer: '*Thanks!*'",
+      DEFAULT_CONFIG_PATH
+    );
+
+    expect(config.templates).toEqual({
+      header: '## Contribution Check',
+      footer: '*Thanks!*',
+    });
+    expect(config.settings.size).toBe(0);
+  });
+
+  it('should treat a file with only comments as empty', () => {
+    const config = parseRepoConfig('# nothing here yet\n', DEFAULT_CONFIG_PATH);
+
+    expect(config.settings.size).toBe(0);
+  });
+
+  it('should name unknown keys', () => {
+    expect(() =>
+      parseRepoConfig(
+        'maxPrSize: 100\ntemplates:\n  title: x',
+        DEFAULT_CONFIG_PATH
+      )
+    ).toThrow(
+      'Invalid configuration in .github/ai-validator.yml: templates: unknown key "title"; unknown key "maxPrSize"'
+    );
+  });
+
+  it('should name keys with invalid values', () => {
+    expect(() =>
+      parseRepoConfig(
+        'ai-provider: mistral\nmax-pr-size: -5',
+        DEFAULT_CONFIG_PATH
+      )
+    ).toThrow(/ai-provider: .*; max-pr-size: Too small/);
+  });
+
+  it('should explain list type errors', () => {
+    expect(() =>
+      parseRepoConfig('skip-authors: 42', DEFAULT_CONFIG_PATH)
+    ).toThrow('skip-authors: Expected a string or a list of strings');
+  });
+
+  it('should reject malformed YAML', () => {
+    expect(() =>
+      parseRepoConfig('ai-provider: [openai', DEFAULT_CONFIG_PATH)
+    ).toThrow('Invalid YAML in .github/ai-validator.yml');
+  });
+});
+
+describe('loadRepoConfig', () => {
+  const clientWith = (content: string | null): GitHubClient =>
+    ({
+      getFileContent: vi.fn().mockResolvedValue(content),
+    }) as unknown as GitHubClient;
+
+  it('should read the file from the given ref', async () => {
+    const githubClient = clientWith('max-pr-size: 100');
+
+    const config = await loadRepoConfig(githubClient, 'owner', 'repo', 'main');
+
+    expect(githubClient.getFileContent).toHaveBeenCalledWith(
+      'owner',
+      'repo',
+      '.github/ai-validator.yml',
+      'main'
+    );
+    expect(config?.settings.get('max-pr-size')).toBe('100');
+  });
+
+  it('should return undefined when the file does not exist', async () => {
+    const config = await loadRepoConfig(
+      clientWith(null),
+      'owner',
+      'repo',
+      'main',
+      '.github/custom.yml'
+    );
+
+    expect(config).toBeUndefined();
+  });
+});
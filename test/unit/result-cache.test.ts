@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import {
+  computeFingerprint,
+  remapCommitShas,
+} from '../../src/core/result-cache';
+import type { ValidationReport } from '../../src/core/validator';
+
+/**
+ * Result Cache Test Suite
+ */
+
+const OLD_SHA = 'a'.repeat(40);
+const NEW_SHA = 'b'.repeat(40);
+
+const report = (
+  overrides: Partial<ValidationReport> = {}
+): ValidationReport => ({
+  status: 'WARNINGS',
+  issues: [
+    {
+      severity: 'warning',
+      category: 'commits',
+      target: OLD_SHA,
+      message: 'Subject is too long',
+    },
+  ],
+  improved_title: '',
+  improved_commits: '',
+  improved_description: '',
+  commits: [
+    { sha: OLD_SHA, status: 'WARNINGS', issues: [], suggested_message: '' },
+  ],
+  cacheKey: { fingerprint: 'f'.repeat(64), commitShas: [OLD_SHA] },
+  ...overrides,
+});
+
+describe('computeFingerprint', () => {
+  it('should be stable for the same parts', () => {
+    expect(computeFingerprint(['prompt', 'gemini/model'])).toBe(
+      computeFingerprint(['prompt', 'gemini/model'])
+    );
+    expect(computeFingerprint(['prompt'])).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  it('should tell apart text moved between parts', () => {
+    expect(computeFingerprint(['ab', 'c'])).not.toBe(
+      computeFingerprint(['a', 'bc'])
+    );
+  });
+});
+
+describe('remapCommitShas', () => {
+  it('should move commit verdicts and issue targets to the new SHAs', () => {
+    const remapped = remapCommitShas(report(), [OLD_SHA], [NEW_SHA]);
+
+    expect(remapped.commits?.[0]?.sha).toBe(NEW_SHA);
+    expect(remapped.issues[0]?.target).toBe(NEW_SHA);
+  });
+
+  it('should leave targets of other categories alone', () => {
+    const remapped = remapCommitShas(
+      report({
+        issues: [
+          {
+            severity: 'warning',
+            category: 'title',
+            target: OLD_SHA,
+            message: 'Too long',
+          },
+        ],
+      }),
+      [OLD_SHA],
+      [NEW_SHA]
+    );
+
+    expect(remapped.issues[0]?.target).toBe(OLD_SHA);
+  });
+});
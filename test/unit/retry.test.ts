@@ -0,0 +1,203 @@
+import { describe, it, expect, vi, type Mock } from 'vitest';
+import {
+  isRateLimited,
+  isRetryableError,
+  retryDelayMs,
+  withRetry,
+  type RetryOptions,
+} from '../../src/github/retry';
+
+/**
+ * GitHub Retry Policy Tests
+ *
+ * Sleep and randomness are injected so backoff schedules can be asserted
+ * exactly without slowing the suite down.
+ */
+
+const rateLimitError = (
+  status: number,
+  message: string,
+  headers: Record<string, string> = {}
+): { status: number; message: string; response: { headers: object } } => ({
+  status,
+  message,
+  response: { headers },
+});
+
+describe('GitHub retry policy', () => {
+  const createOptions = (
+    overrides: Partial<Omit<RetryOptions, 'sleep'>> = {}
+  ): RetryOptions & {
+    sleep: Mock<(ms: number, signal?: AbortSignal) => Promise<void>>;
+  } => ({
+    maxAttempts: 3,
+    baseDelayMs: 1000,
+    maxDelayMs: 60000,
+    random: () => 0.5,
+    sleep: vi
+      .fn<(ms: number, signal?: AbortSignal) => Promise<void>>()
+      .mockResolvedValue(undefined),
+    ...overrides,
+  });
+
+  describe('error classification', () => {
+    it('should treat 429 and 403 rate limits as retryable', () => {
+      expect(isRateLimited(rateLimitError(429, 'Too Many Requests'))).toBe(
+        true
+      );
+      expect(
+        isRateLimited(
+          rateLimitError(
+            403,
+            'You have exceeded a secondary rate limit. Please wait a few minutes.',
+            { 'retry-after': '30' }
+          )
+        )
+      ).toBe(true);
+      expect(
+        isRateLimited(
+          rateLimitError(403, 'API rate limit exceeded for installation', {
+            'x-ratelimit-remaining': '0',
+          })
+        )
+      ).toBe(true);
+    });
+
+    it('should not retry permission 403s', () => {
+      const error = rateLimitError(
+        403,
+        'Resource not accessible by integration',
+        { 'x-ratelimit-remaining': '4999' }
+      );
+
+      expect(isRateLimited(error)).toBe(false);
+      expect(isRetryableError(error)).toBe(false);
+    });
+
+    it('should retry transient server errors but not client errors', () => {
+      expect(isRetryableError({ status: 502 })).toBe(true);
+      expect(isRetryableError({ status: 404 })).toBe(false);
+      expect(isRetryableError(new Error('socket hang up'))).toBe(false);
+    });
+  });
+
+  describe('delay calculation', () => {
+    it('should honor Retry-After in seconds', () => {
+      const error = rateLimitError(403, 'secondary rate limit', {
+        'retry-after': '7',
+      });
+
+      expect(retryDelayMs(error, 1, createOptions())).toBe(7000);
+    });
+
+    it('should wait until x-ratelimit-reset when the limit is exhausted', () => {
+      const now = 1_700_000_000_000;
+      const error = rateLimitError(403, 'API rate limit exceeded', {
+        'x-ratelimit-remaining': '0',
+        'x-ratelimit-reset': String(now / 1000 + 12),
+      });
+
+      expect(retryDelayMs(error, 1, createOptions(), now)).toBe(12000);
+    });
+
+    it('should back off exponentially with jitter', () => {
+      const error = rateLimitError(429, 'Too Many Requests');
+
+      expect(retryDelayMs(error, 1, createOptions({ random: () => 0 }))).toBe(
+        500
+      );
+      expect(retryDelayMs(error, 2, createOptions({ random: () => 1 }))).toBe(
+        2000
+      );
+      expect(retryDelayMs(error, 3, createOptions())).toBe(3000);
+    });
+  });
+
+  describe('withRetry', () => {
+    it('should retry until the operation succeeds', async () => {
+      const options = createOptions();
+      const operation = vi
+        .fn()
+        .mockRejectedValueOnce(rateLimitError(429, 'Too Many Requests'))
+        .mockRejectedValueOnce(rateLimitError(503, 'Service Unavailable'))
+        .mockResolvedValueOnce('ok');
+
+      await expect(withRetry(operation, options)).resolves.toBe('ok');
+      expect(operation).toHaveBeenCalledTimes(3);
+      expect(options.sleep.mock.calls).toEqual([
+        [750, undefined],
+        [1500, undefined],
+      ]);
+    });
+
+    it('should stop retrying once the signal aborts', async () => {
+      const controller = new global.AbortController();
+      const options = createOptions();
+      options.sleep.mockImplementation(() => {
+        controller.abort();
+        return Promise.resolve();
+      });
+      const error = rateLimitError(429, 'Too Many Requests');
+      const operation = vi.fn().mockRejectedValue(error);
+
+      await expect(
+        withRetry(operation, options, controller.signal)
+      ).rejects.toBe(error);
+      expect(operation).toHaveBeenCalledTimes(1);
+      expect(options.sleep).toHaveBeenCalledWith(750, controller.signal);
+    });
+
+    it('should cut the default back-off short when the signal aborts', async () => {
+      const controller = new global.AbortController();
+      const error = rateLimitError(429, 'Too Many Requests');
+      const operation = vi.fn().mockImplementation(() => {
+        global.setTimeout(() => controller.abort(), 0);
+        return Promise.reject(error);
+      });
+
+      const startedAt = Date.now();
+      await expect(
+        withRetry(
+          operation,
+          { maxAttempts: 3, baseDelayMs: 60000, maxDelayMs: 60000 },
+          controller.signal
+        )
+      ).rejects.toBe(error);
+      expect(Date.now() - startedAt).toBeLessThan(1000);
+      expect(operation).toHaveBeenCalledTimes(1);
+    });
+
+    it('should give up after the configured attempts', async () => {
+      const options = createOptions({ maxAttempts: 2 });
+      const error = rateLimitError(429, 'Too Many Requests');
+      const operation = vi.fn().mockRejectedValue(error);
+
+      await expect(withRetry(operation, options)).rejects.toBe(error);
+      expect(operation).toHaveBeenCalledTimes(2);
+    });
+
+    it('should fail fast on non-retryable errors', async () => {
+      const options = createOptions();
+      const error = rateLimitError(
+        403,
+        'Resource not accessible by integration'
+      );
+      const operation = vi.fn().mockRejectedValue(error);
+
+      await expect(withRetry(operation, options)).rejects.toBe(error);
+      expect(operation).toHaveBeenCalledTimes(1);
+      expect(options.sleep).not.toHaveBeenCalled();
+    });
+
+    it('should not wait longer than maxDelayMs for a rate limit reset', async () => {
+      const options = createOptions({ maxDelayMs: 5000 });
+      const error = rateLimitError(403, 'secondary rate limit', {
+        'retry-after': '60',
+      });
+      const operation = vi.fn().mockRejectedValue(error);
+
+      await expect(withRetry(operation, options)).rejects.toBe(error);
+      expect(operation).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import {
+  estimateTokens,
+  truncateLines,
+  withTruncationNote,
+} from '../../src/ai/tokens';
+
+/**
+ * Token Estimation Test Suite
+ */
+
+describe('estimateTokens', () => {
+  it('should count about four characters per token, rounding up', () => {
+    expect(estimateTokens('')).toBe(0);
+    expect(estimateTokens('abcd')).toBe(1);
+    expect(estimateTokens('abcde')).toBe(2);
+  });
+});
+
+describe('truncateLines', () => {
+  it('should keep text that fits the budget', () => {
+    expect(truncateLines('one\ntwo', 10)).toEqual({
+      text: 'one\ntwo',
+      omittedLines: 0,
+    });
+  });
+
+  it('should keep whole leading lines', () => {
+    // 3 tokens = 12 characters: "line1\nline2" fits, "line3" does not
+    expect(truncateLines('line1\nline2\nline3', 3)).toEqual({
+      text: 'line1\nline2',
+      omittedLines: 1,
+    });
+  });
+
+  it('should cut the first line that does not fit to the remaining budget', () => {
+    // 4 tokens = 16 characters: "line1\nline2" plus "\nline"
+    expect(truncateLines('line1\nline2\nline3', 4)).toEqual({
+      text: 'line1\nline2\nline',
+      omittedLines: 1,
+    });
+  });
+
+  it('should shorten a single line that exceeds the budget', () => {
+    expect(truncateLines('a long first line', 1)).toEqual({
+      text: 'a lo',
+      omittedLines: 1,
+    });
+
+    const paragraph = 'word '.repeat(20000);
+    const truncated = truncateLines(paragraph, 2000);
+    expect(truncated.text).toBe(paragraph.slice(0, 8000));
+    expect(truncated.omittedLines).toBe(1);
+  });
+});
+
+describe('withTruncationNote', () => {
+  it('should append the number of omitted lines', () => {
+    expect(withTruncationNote({ text: 'one', omittedLines: 2 })).toBe(
+      'one\n... (2 more lines truncated)'
+    );
+    expect(withTruncationNote({ text: '', omittedLines: 2 })).toBe(
+      '... (2 more lines truncated)'
+    );
+  });
+
+  it('should leave complete text alone', () => {
+    expect(withTruncationNote({ text: 'one', omittedLines: 0 })).toBe('one');
+  });
+});